@@ -3,8 +3,12 @@ import swagger from "@elysiajs/swagger";
 import Elysia from "elysia";
 import config from "@/config";
 import adminController from "@/controllers/admin";
+import chatsController from "@/controllers/chats";
 import connectionsController from "@/controllers/connections";
+import contactsController from "@/controllers/contacts";
+import groupsController from "@/controllers/groups";
 import mediaController from "@/controllers/media";
+import profileController from "@/controllers/profile";
 import statusController from "@/controllers/status";
 import { errorToString } from "@/helpers/errorToString";
 import logger from "@/lib/logger";
@@ -70,6 +74,22 @@ const app = new Elysia()
             name: "Connections",
             description: "WhatsApp connections operations",
           },
+          {
+            name: "Chats",
+            description: "Chats and messages stored for a WhatsApp connection",
+          },
+          {
+            name: "Contacts",
+            description: "Contacts stored for a WhatsApp connection",
+          },
+          {
+            name: "Groups",
+            description: "WhatsApp group operations",
+          },
+          {
+            name: "Profile",
+            description: "Connected account profile and privacy operations",
+          },
           {
             name: "Admin",
             description: "Admin operations",
@@ -95,6 +115,10 @@ const app = new Elysia()
   .use(statusController)
   .use(adminController)
   .use(connectionsController)
+  .use(chatsController)
+  .use(contactsController)
+  .use(groupsController)
+  .use(profileController)
   .use(mediaController);
 
 if (config.env === "development") {
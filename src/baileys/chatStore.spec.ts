@@ -0,0 +1,12 @@
+import { describe, expect, it } from "bun:test";
+import { createChatStore } from "./chatStore";
+
+describe("chatStore", () => {
+  describe("#createChatStore", () => {
+    it("returns null when the chat store is disabled", () => {
+      expect(createChatStore("551101234567")).toBeNull();
+    });
+
+    it.todo("returns a Redis chat store when CHAT_STORE is redis", () => {});
+  });
+});
@@ -0,0 +1,50 @@
+import type {
+  ChatUpdate,
+  proto,
+  WAMessageKey,
+  WAMessageUpdate,
+} from "@whiskeysockets/baileys";
+import { useRedisChatStore } from "@/baileys/redisChatStore";
+import type {
+  MessageSearchOptions,
+  MessageSearchResult,
+  StoredChat,
+  StoredPage,
+} from "@/baileys/types";
+import config from "@/config";
+
+export interface ChatStore {
+  saveChats(
+    chats: ChatUpdate[],
+    options?: { isUpdate?: boolean },
+  ): Promise<void>;
+  deleteChats(jids: string[]): Promise<void>;
+  saveMessages(messages: proto.IWebMessageInfo[]): Promise<void>;
+  updateMessages(updates: WAMessageUpdate[]): Promise<void>;
+  deleteMessages(keys: WAMessageKey[]): Promise<void>;
+  clearChatMessages(jid: string): Promise<void>;
+  getChats(options: {
+    cursor?: string;
+    limit: number;
+  }): Promise<StoredPage<StoredChat>>;
+  getMessages(
+    jid: string,
+    options: { cursor?: string; limit: number },
+  ): Promise<StoredPage<proto.IWebMessageInfo>>;
+  searchMessages(options: MessageSearchOptions): Promise<MessageSearchResult>;
+  clear(): Promise<void>;
+}
+
+/**
+ * @description Create the chat store configured with `CHAT_STORE`.
+ *
+ * @returns The store, or `null` if the chat store is disabled.
+ */
+export function createChatStore(id: string): ChatStore | null {
+  switch (config.chatStore.driver) {
+    case "redis":
+      return useRedisChatStore(id);
+    default:
+      return null;
+  }
+}
@@ -12,15 +12,122 @@ describe("BaileysConnection", () => {
     it.todo("throw BaileysNotConnectedError if not connected", () => {});
     it.todo("call socket logout method", () => {});
     it.todo("clear auth state and remove socket", () => {});
+    it.todo("skip the queued messages of the connection", () => {});
+  });
+
+  describe("#assertReadyToSend", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("throw BaileysConnectionClosedError until the connection is open", () => {});
   });
 
   describe("#sendMessage", () => {
     it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("throw BaileysConnectionClosedError until the connection is open", () => {});
     it.todo("call socket sendMessage method", () => {});
+    it.todo("store the sent message", () => {});
+    it.todo("track the message status as pending", () => {});
+    it.todo("fetch and cache the metadata of groups that are not cached yet", () => {});
+    describe("when simulateTyping is enabled", () => {
+      it.todo("send composing, wait based on the text length and send paused", () => {});
+      it.todo("send recording for voice notes", () => {});
+      it.todo("use the connection default when not provided", () => {});
+      it.todo("send the message even if the presence update fails", () => {});
+    });
+    it.todo("track the message status as failed if sending fails", () => {});
+    it.todo("release the media streams even if the message is not sent", () => {});
+    describe("when quotedMessageKey is provided", () => {
+      it.todo("quote the stored message", () => {});
+      it.todo("throw BaileysMessageNotFoundError if the message is not stored", () => {});
+    });
     describe("when message is audio", () => {
       it.todo("preprocess audio message", () => {});
       it.todo("logs error during audio preprocessing", () => {});
     });
+    describe("when message is image or video", () => {
+      it.todo("preprocess media with the request options", () => {});
+      it.todo("send the original media if preprocessing fails", () => {});
+    });
+    describe("when media is a stream", () => {
+      it.todo("buffer audio and images before preprocessing", () => {});
+      it.todo("stream videos to preprocessing", () => {});
+      it.todo("throw InvalidMediaSourceError if the media exceeds the size limit", () => {});
+    });
+  });
+
+  describe("#sendBulkMessage", () => {
+    it.todo("upload the media once and return a running job", () => {});
+    it.todo("relay the message to each recipient with its template variables", () => {});
+    it.todo("mark recipients that are not on WhatsApp without sending", () => {});
+    it.todo("mark recipients whose send fails as failed and continue", () => {});
+    it.todo("pace the sends with the message queue and complete the job", () => {});
+    it.todo("retry the recipient once the connection is open again", () => {});
+    it.todo("mark the job as interrupted if the connection is closed", () => {});
+  });
+
+  describe("#resumeBulkMessageJobs", () => {
+    it.todo("resume running jobs without resending recipients that have a result", () => {});
+    it.todo("mark running jobs whose payload expired as interrupted", () => {});
+  });
+
+  describe("#getBulkMessageJob", () => {
+    it.todo("return the job from the bulk message job store", () => {});
+  });
+
+  describe("#getMessageStatus", () => {
+    it.todo("return the status from the message status store", () => {});
+  });
+
+  describe("#enqueueMessage", () => {
+    it.todo("add the message to the connection's message queue", () => {});
+  });
+
+  describe("#scheduleMessage", () => {
+    it.todo("save the message in the scheduled message store", () => {});
+  });
+
+  describe("#getScheduledMessages", () => {
+    it.todo("return the messages from the scheduled message store", () => {});
+  });
+
+  describe("#cancelScheduledMessage", () => {
+    it.todo("remove the message from the scheduled message store", () => {});
+  });
+
+  describe("#groupFetchAllParticipating", () => {
+    it.todo("return the groups as a list", () => {});
+  });
+
+  describe("#groupMetadata", () => {
+    it.todo("cache the fetched group metadata", () => {});
+  });
+
+  describe("#groupRequestParticipantsList", () => {
+    it.todo("return the jid, phone number, method and time of each request", () => {});
+  });
+
+  describe("#groupParticipantsUpdate", () => {
+    it.todo("return the jid and status of each participant", () => {});
+  });
+
+  describe("#forwardMessage", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("throw BaileysMessageNotFoundError if the message is not stored", () => {});
+    it.todo("call socket sendMessage method with the stored message", () => {});
+  });
+
+  describe("#editMessage", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("throw BaileysMessageNotEditableError if message is not from me", () => {});
+    it.todo("throw BaileysMessageNotEditableError if edit window has expired", () => {});
+    it.todo("throw BaileysConnectionClosedError until the connection is open", () => {});
+    it.todo("call socket sendMessage method with edit key", () => {});
+    it.todo("store the edited text of the message", () => {});
+  });
+
+  describe("#deleteMessage", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("throw BaileysConnectionClosedError until the connection is open", () => {});
+    it.todo("call socket sendMessage method with delete key", () => {});
   });
 
   describe("#sendPresenceUpdate", () => {
@@ -47,6 +154,70 @@ describe("BaileysConnection", () => {
     it.todo("call socket fetchMessageHistory method", () => {});
   });
 
+  describe("#fetchMessageHistoryAndWait", () => {
+    it.todo("return the messages of the on-demand history chunk with the request id", () => {});
+    it.todo("throw BaileysHistoryFetchTimeoutError if no history arrives in time", () => {});
+  });
+
+  describe("#handleMessagingHistorySet", () => {
+    it.todo("send on-demand history to the webhook even without syncFullHistory", () => {});
+    it.todo("not send other history to the webhook without syncFullHistory", () => {});
+  });
+
+  describe("#getProfile", () => {
+    it.todo("throw an error if the connection is not ready", () => {});
+    it.todo("return the name, about text and profile picture of the account", () => {});
+    it.todo("return null fields when hidden or not set", () => {});
+  });
+
+  describe("#updateProfilePicture", () => {
+    it.todo("crop the picture to a square before setting it", () => {});
+  });
+
+  describe("#removeProfilePicture", () => {
+    it.todo("call socket removeProfilePicture with the account jid", () => {});
+  });
+
+  describe("#getChats", () => {
+    it.todo("throw BaileysChatStoreDisabledError if the chat store is disabled", () => {});
+    it.todo("return a page of stored chats", () => {});
+  });
+
+  describe("#getChatMessages", () => {
+    it.todo("throw BaileysChatStoreDisabledError if the chat store is disabled", () => {});
+    it.todo("return a page of stored messages of the chat", () => {});
+  });
+
+  describe("#searchMessages", () => {
+    it.todo("throw BaileysChatStoreDisabledError if the chat store is disabled", () => {});
+    it.todo("return the matching stored messages", () => {});
+  });
+
+  describe("#getContacts", () => {
+    it.todo("return a page of stored contacts", () => {});
+  });
+
+  describe("#fetchBlocklist", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("return the blocked jids", () => {});
+  });
+
+  describe("#updateBlockStatus", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("call socket updateBlockStatus method", () => {});
+    it.todo("update the cached blocklist", () => {});
+  });
+
+  describe("#fetchPrivacySettings", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("map WhatsApp privacy categories to setting names", () => {});
+  });
+
+  describe("#updatePrivacySettings", () => {
+    it.todo("throw BaileysNotConnectedError if not connected", () => {});
+    it.todo("only update the provided settings", () => {});
+  });
+
   describe("#profilePictureUrl", () => {
     it.todo("should return an error when profile picture is not found", () => {});
     it.todo("should call socket profilePictureUrl method with correct parameters", () => {});
@@ -66,19 +237,84 @@ describe("BaileysConnection", () => {
     describe("messages.upsert", () => {
       it.todo("call download media from messages", () => {});
       it.todo("call download media from messages with includeMedia", () => {});
+      it.todo("store received messages", () => {});
       it.todo("send the message payload with media to the webhook", () => {});
+      it.todo("add cached group names and participants to the payload", () => {});
+      it.todo("store the messages in the chat store", () => {});
+      describe("when dropBlockedMessages is enabled", () => {
+        it.todo("drop messages from blocked senders", () => {});
+        it.todo("match blocked senders by phone number or lid", () => {});
+        it.todo("not send the webhook when every message is dropped", () => {});
+      });
     });
 
     describe("messages.update", () => {
       it.todo("send the updated message payload with media to the webhook", () => {});
+      it.todo("update the messages in the chat store", () => {});
     });
 
     describe("message-receipt.update", () => {
       it.todo("send the message receipt update payload to the webhook", () => {});
     });
 
+    describe("groups.upsert", () => {
+      it.todo("cache the group metadata", () => {});
+    });
+
+    describe("groups.update", () => {
+      it.todo("invalidate the cached group metadata", () => {});
+    });
+
+    describe("group-participants.update", () => {
+      it.todo("invalidate the cached group metadata", () => {});
+    });
+
+    describe("group.join-request", () => {
+      it.todo("send the request with the requester's phone number and group subject to the webhook", () => {});
+      it.todo("resolve the phone number of lid requesters", () => {});
+    });
+
+    describe("chats.upsert", () => {
+      it.todo("store the chats", () => {});
+    });
+
+    describe("chats.update", () => {
+      it.todo("merge the updates into the stored chats", () => {});
+    });
+
+    describe("chats.delete", () => {
+      it.todo("delete the stored chats", () => {});
+    });
+
+    describe("messages.delete", () => {
+      it.todo("delete the stored messages", () => {});
+      it.todo("clear the chat when every message is deleted", () => {});
+    });
+
+    describe("contacts.upsert", () => {
+      it.todo("store the contacts", () => {});
+    });
+
+    describe("contacts.update", () => {
+      it.todo("merge the updates into the stored contacts", () => {});
+    });
+
+    describe("lid-mapping.update", () => {
+      it.todo("link the lid and phone number of the stored contact", () => {});
+    });
+
+    describe("blocklist.set", () => {
+      it.todo("replace the cached blocklist", () => {});
+    });
+
+    describe("blocklist.update", () => {
+      it.todo("add or remove jids from the cached blocklist", () => {});
+    });
+
     describe("messaging-history.set", () => {
       it.todo("download media from history messages", () => {});
+      it.todo("store the history contacts even if syncFullHistory is disabled", () => {});
+      it.todo("store the history chats and messages even if syncFullHistory is disabled", () => {});
       it.todo("send the history payload to the webhook", () => {});
     });
   });
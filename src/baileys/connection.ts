@@ -1,34 +1,92 @@
 import type { Boom } from "@hapi/boom";
 import makeWASocket, {
-  type AnyMessageContent,
   type AuthenticationState,
   type BaileysEventMap,
   Browsers,
+  type CacheStore,
   type ChatModification,
   type ConnectionState,
   DisconnectReason,
+  type GroupParticipant,
+  generateMessageIDV2,
+  generateWAMessageContent,
+  generateWAMessageFromContent,
+  getKeyAuthor,
   isJidBot,
   isJidBroadcast,
   isJidGroup,
   isJidMetaAI,
   isJidNewsletter,
   isJidStatusBroadcast,
+  isPnUser,
+  jidNormalizedUser,
+  type MessageContentGenerationOptions,
   type MessageReceiptType,
   makeCacheableSignalKeyStore,
-  type proto,
+  normalizeMessageContent,
+  type ParticipantAction,
+  proto,
+  toNumber,
   type UserFacingSocketConfig,
   type WAConnectionState,
+  type WAMediaUpload,
+  type WAMessage,
   type WAPresence,
 } from "@whiskeysockets/baileys";
 import { toDataURL } from "qrcode";
+import { type ChatStore, createChatStore } from "@/baileys/chatStore";
+import { useGroupMetadataCache } from "@/baileys/groupMetadataCache";
 import { downloadMediaFromMessages } from "@/baileys/helpers/downloadMediaFromMessages";
 import { fetchBaileysClientVersion } from "@/baileys/helpers/fetchBaileysClientVersion";
+import { jidToPhoneNumber } from "@/baileys/helpers/jidToPhoneNumber";
+import { createLruCacheStore } from "@/baileys/helpers/lruCacheStore";
+import {
+  InvalidMediaSourceError,
+  isMediaStream,
+  streamToBuffer,
+} from "@/baileys/helpers/mediaSource";
 import { normalizeBrazilPhoneNumber } from "@/baileys/helpers/normalizeBrazilPhoneNumber";
+import {
+  aggregatePollVotes,
+  decryptPollUpdate,
+  isPollCreationMessage,
+  type PollVotesTally,
+} from "@/baileys/helpers/pollVotes";
 import { preprocessAudio } from "@/baileys/helpers/preprocessAudio";
+import {
+  type MediaPreprocessingOptions,
+  preprocessImage,
+  preprocessVideo,
+} from "@/baileys/helpers/preprocessMedia";
+import {
+  PROFILE_PICTURE_SIZE_PX,
+  preprocessProfilePicture,
+} from "@/baileys/helpers/preprocessProfilePicture";
+import { preprocessSticker } from "@/baileys/helpers/preprocessSticker";
+import { waitForSendSlot } from "@/baileys/helpers/sendPacing";
+import { applyTemplateVariables } from "@/baileys/helpers/templateVariables";
 import { useRedisAuthState } from "@/baileys/redisAuthState";
+import { useRedisBulkMessageJobStore } from "@/baileys/redisBulkMessageJobStore";
+import { useRedisContactStore } from "@/baileys/redisContactStore";
+import { useRedisMessageQueue } from "@/baileys/redisMessageQueue";
+import {
+  messageStatusesFromReceipt,
+  messageStatusFromProto,
+  useRedisMessageStatusStore,
+} from "@/baileys/redisMessageStatusStore";
+import { useRedisMessageStore } from "@/baileys/redisMessageStore";
+import { useRedisPollStore } from "@/baileys/redisPollStore";
+import { useRedisScheduledMessageStore } from "@/baileys/redisScheduledMessageStore";
 import type {
   BaileysConnectionOptions,
   BaileysConnectionWebhookPayload,
+  BaileysMessageContent,
+  BulkMessageRecipient,
+  BulkMessageRecipientResult,
+  MessageSearchOptions,
+  PrivacySettings,
+  QueuedMessage,
+  ScheduledMessage,
 } from "@/baileys/types";
 import config from "@/config";
 import { asyncSleep } from "@/helpers/asyncSleep";
@@ -41,6 +99,55 @@ export class BaileysNotConnectedError extends Error {
   }
 }
 
+export class BaileysConnectionClosedError extends Error {
+  constructor() {
+    super(
+      "Connection is closed or not ready. Please ensure the WhatsApp connection is active and try again.",
+    );
+  }
+}
+
+export class BaileysMessageNotFoundError extends Error {
+  constructor(messageId?: string | null) {
+    super(`Message ${messageId ?? ""} not found in message store`);
+  }
+}
+
+export class BaileysMessageNotEditableError extends Error {
+  constructor(reason: string) {
+    super(`Message cannot be edited: ${reason}`);
+  }
+}
+
+export class BaileysChatStoreDisabledError extends Error {
+  constructor() {
+    super("Chat store is disabled. Set CHAT_STORE to enable it");
+  }
+}
+
+export class BaileysHistoryFetchTimeoutError extends Error {
+  constructor(requestId: string) {
+    super(`Timed out waiting for the message history of request ${requestId}`);
+  }
+}
+
+// NOTE: WhatsApp only allows editing messages up to 15 minutes after they were sent.
+const MESSAGE_EDIT_WINDOW_SECONDS = 15 * 60;
+
+// NOTE: How often bulk message jobs check whether a reconnecting connection is open again.
+const CONNECTION_OPEN_POLL_MS = 5_000;
+
+// NOTE: Privacy settings categories, as named by WhatsApp.
+const PRIVACY_SETTINGS_CATEGORIES: Record<keyof PrivacySettings, string> = {
+  lastSeen: "last",
+  online: "online",
+  profilePicture: "profile",
+  about: "status",
+  readReceipts: "readreceipts",
+  groupAdd: "groupadd",
+  callAdd: "calladd",
+};
+
 export class BaileysConnection {
   private LOGGER_OMIT_KEYS: ReadonlyArray<string> = [
     "qr",
@@ -98,12 +205,39 @@ export class BaileysConnection {
   private includeMedia: boolean;
   private syncFullHistory: boolean;
   private ignoreGroupMessages: boolean | undefined;
+  private simulateTyping: boolean;
+  private dropBlockedMessages: boolean;
+  // NOTE: Loaded on the first message when `dropBlockedMessages` is enabled, then kept up to date by blocklist events.
+  private blocklist: Set<string> | null = null;
   private onConnectionClose: (() => void) | null;
   private socket: ReturnType<typeof makeWASocket> | null;
   private clearAuthState: AuthenticationState["keys"]["clear"] | null;
+  private pollStore: ReturnType<typeof useRedisPollStore>;
+  private messageStore: ReturnType<typeof useRedisMessageStore>;
+  private scheduledMessageStore: ReturnType<
+    typeof useRedisScheduledMessageStore
+  >;
+  private messageQueue: ReturnType<typeof useRedisMessageQueue>;
+  private bulkMessageJobStore: ReturnType<typeof useRedisBulkMessageJobStore>;
+  private messageStatusStore: ReturnType<typeof useRedisMessageStatusStore>;
+  private contactStore: ReturnType<typeof useRedisContactStore>;
+  // NOTE: `null` when the chat store is disabled.
+  private chatStore: ChatStore | null;
+  // NOTE: Kept across reconnects so retry counts are not reset when the socket is recreated.
+  private msgRetryCounterCache: CacheStore;
+  private groupMetadataCache: ReturnType<typeof useGroupMetadataCache>;
+  // NOTE: On-demand history requests waiting for their history chunk, by request id.
+  private pendingHistoryRequests = new Map<
+    string,
+    (data: BaileysEventMap["messaging-history.set"]) => void
+  >();
   private clearOnlinePresenceTimeout: ReturnType<typeof setTimeout> | null =
     null;
   private reconnectCount = 0;
+  // NOTE: Sockets are created with the saved user before the websocket is open, so `socket.user` can't tell whether messages can be sent.
+  private isOpen = false;
+  // NOTE: Set once the connection is logged out or reset, it is not reconnected after that.
+  private isClosed = false;
 
   constructor(phoneNumber: string, options: BaileysConnectionOptions) {
     this.phoneNumber = phoneNumber;
@@ -113,11 +247,26 @@ export class BaileysConnection {
     this.onConnectionClose = options.onConnectionClose || null;
     this.socket = null;
     this.clearAuthState = null;
+    this.pollStore = useRedisPollStore(phoneNumber);
+    this.messageStore = useRedisMessageStore(phoneNumber);
+    this.scheduledMessageStore = useRedisScheduledMessageStore(phoneNumber);
+    this.messageQueue = useRedisMessageQueue(phoneNumber);
+    this.bulkMessageJobStore = useRedisBulkMessageJobStore(phoneNumber);
+    this.messageStatusStore = useRedisMessageStatusStore(phoneNumber);
+    this.contactStore = useRedisContactStore(phoneNumber);
+    this.chatStore = createChatStore(phoneNumber);
+    this.msgRetryCounterCache = createLruCacheStore({
+      max: 1000,
+      ttlMs: 60 * 60 * 1000,
+    });
+    this.groupMetadataCache = useGroupMetadataCache(phoneNumber);
     this.isReconnect = !!options.isReconnect;
     // TODO(v2): Change default to false.
     this.includeMedia = options.includeMedia ?? true;
     this.syncFullHistory = options.syncFullHistory ?? false;
     this.ignoreGroupMessages = options.ignoreGroupMessages;
+    this.simulateTyping = options.simulateTyping ?? false;
+    this.dropBlockedMessages = options.dropBlockedMessages ?? false;
   }
 
   // biome-ignore lint/suspicious/noExplicitAny: Typing this wrapper is not trivial.
@@ -146,6 +295,8 @@ export class BaileysConnection {
     this.includeMedia = options.includeMedia ?? true;
     this.syncFullHistory = options.syncFullHistory ?? false;
     this.ignoreGroupMessages = options.ignoreGroupMessages;
+    this.simulateTyping = options.simulateTyping ?? false;
+    this.dropBlockedMessages = options.dropBlockedMessages ?? false;
   }
 
   async connect() {
@@ -159,6 +310,8 @@ export class BaileysConnection {
       webhookVerifyToken: this.webhookVerifyToken,
       includeMedia: this.includeMedia,
       syncFullHistory: this.syncFullHistory,
+      simulateTyping: this.simulateTyping,
+      dropBlockedMessages: this.dropBlockedMessages,
     });
     this.clearAuthState = state.keys.clear;
 
@@ -215,6 +368,22 @@ export class BaileysConnection {
       browser: Browsers.windows(this.clientName),
       syncFullHistory: this.syncFullHistory,
       shouldIgnoreJid: shouldIgnoreJidForConnection,
+      msgRetryCounterCache: this.msgRetryCounterCache,
+      // NOTE: Used to re-encrypt messages when a recipient device requests a retry.
+      // Baileys also keeps an in-memory cache of recent messages, but it is lost on restarts and reconnects.
+      getMessage: async (key) => {
+        if (!key.id) {
+          return undefined;
+        }
+        const message = await this.messageStore.getMessage(key.id);
+        return message?.message ?? undefined;
+      },
+      // NOTE: Used when sending to groups, so participants are not fetched for every message.
+      // Fetched and cached on a miss, so the first send to a group warms the cache.
+      cachedGroupMetadata: (jid) =>
+        this.groupMetadataCache.fetch(jid, (jid) =>
+          this.safeSocket().groupMetadata(jid),
+        ),
       version: await fetchBaileysClientVersion().catch((error) => {
         logger.error(
           "[%s] [fetchBaileysVersion] Failed to fetch latest WhatsApp Web version, falling back to internal version. %s",
@@ -226,6 +395,8 @@ export class BaileysConnection {
     };
 
     try {
+      this.blocklist = null;
+      this.isOpen = false;
       this.socket = makeWASocket(socketOptions);
     } catch (error) {
       logger.error(
@@ -259,6 +430,10 @@ export class BaileysConnection {
         "handleMessageReceiptUpdate",
         this.handleMessageReceiptUpdate,
       ),
+      "group.join-request": this.withErrorHandling(
+        "handleGroupJoinRequest",
+        this.handleGroupJoinRequest,
+      ),
       "messaging-history.set": this.withErrorHandling(
         "handleMessagingHistorySet",
         this.handleMessagingHistorySet,
@@ -272,6 +447,75 @@ export class BaileysConnection {
       );
     });
 
+    // NOTE: Group events only invalidate the cache, so they are still forwarded to the webhook below.
+    this.socket?.ev.on("groups.upsert", (groups) => {
+      for (const group of groups) {
+        this.groupMetadataCache
+          .set(group.id, group)
+          .catch(this.logGroupMetadataCacheError(group.id));
+      }
+    });
+    this.socket?.ev.on("groups.update", (updates) => {
+      for (const { id } of updates) {
+        if (id) {
+          this.groupMetadataCache
+            .invalidate(id)
+            .catch(this.logGroupMetadataCacheError(id));
+        }
+      }
+    });
+    this.socket?.ev.on("group-participants.update", ({ id }) => {
+      this.groupMetadataCache
+        .invalidate(id)
+        .catch(this.logGroupMetadataCacheError(id));
+    });
+
+    this.socket?.ev.on("contacts.upsert", (contacts) => {
+      this.contactStore
+        .saveContacts(contacts)
+        .catch(this.logStoreError("contactStore", "contacts.upsert"));
+    });
+    this.socket?.ev.on("contacts.update", (updates) => {
+      this.contactStore
+        .saveContacts(updates)
+        .catch(this.logStoreError("contactStore", "contacts.update"));
+    });
+    this.socket?.ev.on("lid-mapping.update", (mapping) => {
+      this.contactStore
+        .linkLidAndPhoneNumber(mapping)
+        .catch(this.logStoreError("contactStore", "lid-mapping.update"));
+    });
+    this.socket?.ev.on("chats.upsert", (chats) => {
+      this.chatStore
+        ?.saveChats(chats)
+        .catch(this.logStoreError("chatStore", "chats.upsert"));
+    });
+    this.socket?.ev.on("chats.update", (updates) => {
+      this.chatStore
+        ?.saveChats(updates, { isUpdate: true })
+        .catch(this.logStoreError("chatStore", "chats.update"));
+    });
+    this.socket?.ev.on("chats.delete", (jids) => {
+      this.chatStore
+        ?.deleteChats(jids)
+        .catch(this.logStoreError("chatStore", "chats.delete"));
+    });
+    this.socket?.ev.on("messages.delete", (data) => {
+      const deletion =
+        "keys" in data
+          ? this.chatStore?.deleteMessages(data.keys)
+          : this.chatStore?.clearChatMessages(data.jid);
+      deletion?.catch(this.logStoreError("chatStore", "messages.delete"));
+    });
+    this.socket?.ev.on("blocklist.set", ({ blocklist }) => {
+      this.blocklist = new Set(blocklist.map(jidNormalizedUser));
+    });
+    this.socket?.ev.on("blocklist.update", ({ blocklist, type }) => {
+      for (const jid of blocklist) {
+        this.updateCachedBlocklist(jid, type === "add" ? "block" : "unblock");
+      }
+    });
+
     this.ALL_BAILEYS_SOCKET_EVENTS.forEach((event) => {
       if (event in handledEvents || !config.baileys.listenToEvents.has(event)) {
         return;
@@ -281,14 +525,71 @@ export class BaileysConnection {
     });
   }
 
+  private logGroupMetadataCacheError(jid: string) {
+    return (error: unknown) => {
+      logger.error(
+        "[%s] [groupMetadataCache] Failed to update %s: %s",
+        this.phoneNumber,
+        jid,
+        errorToString(error),
+      );
+    };
+  }
+
+  private logStoreError(store: string, event: string) {
+    return (error: unknown) => {
+      logger.error(
+        "[%s] [%s] Failed to handle %s: %s",
+        this.phoneNumber,
+        store,
+        event,
+        errorToString(error),
+      );
+    };
+  }
+
   private async close() {
+    await this.skipQueuedMessages().catch(
+      this.logStoreError("messageQueue", "close"),
+    );
     await this.clearAuthState?.();
+    await this.contactStore
+      .clear()
+      .catch(this.logStoreError("contactStore", "close"));
+    await this.chatStore
+      ?.clear()
+      .catch(this.logStoreError("chatStore", "close"));
     this.clearAuthState = null;
     this.socket = null;
+    this.isOpen = false;
+    this.isClosed = true;
     this.reconnectCount = 0;
     this.onConnectionClose?.();
   }
 
+  /**
+   * @description Remove the messages waiting in the queue of a closed connection, sending a
+   * `skipped` update for each, as they can't be sent anymore.
+   */
+  private async skipQueuedMessages() {
+    for (const {
+      id,
+      jid,
+      attempts,
+    } of await this.messageQueue.clearMessages()) {
+      this.sendToWebhook({
+        event: "message-queue.update",
+        data: {
+          queueId: id,
+          jid,
+          status: "skipped",
+          attempts,
+          error: "Connection closed",
+        },
+      });
+    }
+  }
+
   async logout() {
     try {
       await this.safeSocket().logout();
@@ -302,9 +603,42 @@ export class BaileysConnection {
     await this.close();
   }
 
-  async sendMessage(jid: string, messageContent: AnyMessageContent) {
-    const socket = this.safeSocket();
+  /**
+   * @description Check that messages can be sent, e.g. before downloading their media.
+   *
+   * @throws BaileysConnectionClosedError if the connection is not open yet.
+   */
+  assertReadyToSend() {
+    this.readySocket();
+  }
 
+  async sendMessage(
+    jid: string,
+    messageContent: BaileysMessageContent,
+    options?: {
+      quotedMessageKey?: proto.IMessageKey;
+      mediaPreprocessing?: MediaPreprocessingOptions;
+      simulateTyping?: boolean;
+    },
+  ) {
+    // NOTE: Media streams are opened by the caller, so they are released even if the message
+    // is rejected before it is sent, e.g. when the connection is not open.
+    try {
+      return await this.sendMessageContent(jid, messageContent, options);
+    } finally {
+      this.releaseMessageContent(messageContent);
+    }
+  }
+
+  private async sendMessageContent(
+    jid: string,
+    messageContent: BaileysMessageContent,
+    options?: {
+      quotedMessageKey?: proto.IMessageKey;
+      mediaPreprocessing?: MediaPreprocessingOptions;
+      simulateTyping?: boolean;
+    },
+  ) {
     // Validate JID format - ensure it doesn't have malformed suffixes
     if (jid.includes("@g.us@s.whatsapp.net") || jid.includes("@s.whatsapp.net@g.us")) {
       throw new Error(
@@ -312,11 +646,142 @@ export class BaileysConnection {
       );
     }
 
-    // Check if connection is ready
-    if (!socket.user?.id) {
-      throw new Error(
-        "Connection not ready. Please wait for the connection to be fully established before sending messages.",
+    const socket = this.readySocket();
+    // NOTE: The message id is generated upfront, so the message is tracked even if sending it fails.
+    const messageId = generateMessageIDV2(socket.user?.id);
+
+    const quoted = options?.quotedMessageKey
+      ? await this.getStoredMessage(options.quotedMessageKey)
+      : undefined;
+
+    const waveformProxy = await this.preprocessMessageContent(
+      messageContent,
+      options?.mediaPreprocessing,
+    );
+
+    if (options?.simulateTyping ?? this.simulateTyping) {
+      await this.simulateTypingBeforeSend(jid, messageContent);
+    }
+
+    try {
+      if ("liveLocation" in messageContent) {
+        return await this.relayMessageContent(
+          jid,
+          { liveLocationMessage: messageContent.liveLocation },
+          quoted,
+        );
+      }
+
+      await this.trackSentMessage({
+        id: messageId,
+        remoteJid: jid,
+        fromMe: true,
+      });
+      const response = await socket.sendMessage(jid, messageContent, {
+        waveformProxy,
+        quoted,
+        messageId,
+      });
+      if (response) {
+        await this.storeSentMessage(response);
+      }
+      return response;
+    } catch (error) {
+      const errorMessage = errorToString(error);
+      await this.trackSentMessageFailure(messageId, errorMessage);
+
+      // Provide more helpful error messages
+      if (errorMessage.includes("Connection Closed") || errorMessage.includes("428")) {
+        throw new BaileysConnectionClosedError();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * @description Destroy the media streams left in a message content, so the temporary files
+   * they are read from are deleted even if the message was not sent.
+   */
+  private releaseMessageContent(messageContent: BaileysMessageContent) {
+    if ("video" in messageContent && isMediaStream(messageContent.video)) {
+      messageContent.video.stream.destroy();
+    }
+  }
+
+  /**
+   * @description Show the typing (or recording, for voice notes) indicator for a time based on
+   * the length of the text. Only this send waits for it, other sends on the connection are not
+   * delayed. Failures are logged and never prevent the message from being sent.
+   */
+  private async simulateTypingBeforeSend(
+    jid: string,
+    messageContent: BaileysMessageContent,
+  ) {
+    const { minMs, maxMs, msPerCharacter } = config.typingSimulation;
+    const text =
+      "text" in messageContent
+        ? messageContent.text
+        : "caption" in messageContent
+          ? messageContent.caption
+          : undefined;
+    const durationMs = Math.min(
+      maxMs,
+      Math.max(minMs, (text?.length ?? 0) * msPerCharacter),
+    );
+    const isVoiceNote = "audio" in messageContent && !!messageContent.ptt;
+
+    try {
+      await this.safeSocket().presenceSubscribe(jid);
+      await this.sendPresenceUpdate(
+        isVoiceNote ? "recording" : "composing",
+        jid,
       );
+      await asyncSleep(durationMs);
+      await this.sendPresenceUpdate("paused", jid);
+    } catch (error) {
+      logger.error(
+        "[%s] [simulateTypingBeforeSend] error=%s",
+        this.phoneNumber,
+        errorToString(error),
+      );
+    }
+  }
+
+  /**
+   * @description Preprocess the media of a message in place before it is sent.
+   * @returns The wav proxy used by Baileys to generate the waveform of voice notes.
+   */
+  private async preprocessMessageContent(
+    messageContent: BaileysMessageContent,
+    mediaPreprocessing?: MediaPreprocessingOptions,
+  ): Promise<Buffer | null> {
+    // NOTE: Audio, images and stickers are small enough to be preprocessed in memory. Videos are streamed to a temporary file instead.
+    if ("sticker" in messageContent) {
+      const { sticker, packName, author } = messageContent as {
+        sticker: WAMediaUpload;
+        packName?: string;
+        author?: string;
+      };
+      if (Buffer.isBuffer(sticker) || isMediaStream(sticker)) {
+        // NOTE: Unlike other media, stickers can't be sent as is if the conversion fails.
+        Object.assign(
+          messageContent,
+          await preprocessSticker(
+            isMediaStream(sticker)
+              ? await streamToBuffer(sticker.stream)
+              : sticker,
+            { packName, author },
+          ),
+          { packName: undefined, author: undefined },
+        );
+      }
+    }
+    if ("audio" in messageContent && isMediaStream(messageContent.audio)) {
+      messageContent.audio = await streamToBuffer(messageContent.audio.stream);
+    }
+    if ("image" in messageContent && isMediaStream(messageContent.image)) {
+      messageContent.image = await streamToBuffer(messageContent.image.stream);
     }
 
     let waveformProxy: Buffer | null = null;
@@ -336,31 +801,319 @@ export class BaileysConnection {
           ? "audio/ogg; codecs=opus"
           : "audio/mpeg";
       }
+      if ("image" in messageContent && Buffer.isBuffer(messageContent.image)) {
+        Object.assign(
+          messageContent,
+          await preprocessImage(messageContent.image, mediaPreprocessing),
+        );
+      }
+      if ("video" in messageContent) {
+        const { video } = messageContent;
+        if (Buffer.isBuffer(video) || isMediaStream(video)) {
+          const { video: processedVideo, ...videoContent } =
+            await preprocessVideo(
+              isMediaStream(video) ? video.stream : video,
+              mediaPreprocessing,
+            );
+          Object.assign(messageContent, videoContent, {
+            video: Buffer.isBuffer(processedVideo)
+              ? processedVideo
+              : { stream: processedVideo },
+          });
+        }
+      }
     } catch (error) {
-      // NOTE: This usually means ffmpeg is not installed.
+      if (error instanceof InvalidMediaSourceError) {
+        throw error;
+      }
+      // NOTE: This usually means ffmpeg is not installed. The media is sent as is.
       logger.error(
-        "[%s] [sendMessage] [ERROR] error=%s",
+        "[%s] [preprocessMessageContent] [ERROR] error=%s",
         this.phoneNumber,
         errorToString(error),
       );
     }
 
+    return waveformProxy;
+  }
+
+  private async relayMessageContent(
+    jid: string,
+    content: proto.IMessage,
+    quoted?: WAMessage,
+  ) {
+    const socket = this.safeSocket();
+    const message = generateWAMessageFromContent(jid, content, {
+      userJid: socket.user?.id as string,
+      quoted,
+    });
+    await this.trackSentMessage(message.key);
     try {
-      return await socket.sendMessage(jid, messageContent, {
-        waveformProxy,
+      await socket.relayMessage(jid, message.message as proto.IMessage, {
+        messageId: message.key.id as string,
+        // NOTE: Same node Baileys adds when sending polls through `sendMessage`.
+        additionalNodes: isPollCreationMessage(message.message)
+          ? [{ tag: "meta", attrs: { polltype: "creation" } }]
+          : undefined,
       });
     } catch (error) {
-      const errorMessage = errorToString(error);
+      await this.trackSentMessageFailure(
+        message.key.id as string,
+        errorToString(error),
+      );
+      throw error;
+    }
+    await this.storeSentMessage(message);
+    return message;
+  }
 
-      // Provide more helpful error messages
-      if (errorMessage.includes("Connection Closed") || errorMessage.includes("428")) {
-        throw new Error(
-          "Connection is closed or not ready. Please ensure the WhatsApp connection is active and try again.",
+  /**
+   * @description Send the same message to several recipients. The media is preprocessed and
+   * uploaded once, and the message is then relayed to each recipient in the background,
+   * sharing the send rate of the message queue.
+   *
+   * @returns The job, whose per-recipient results are updated as the messages are sent.
+   */
+  async sendBulkMessage(
+    recipients: BulkMessageRecipient[],
+    messageContent: BaileysMessageContent,
+    options?: { mediaPreprocessing?: MediaPreprocessingOptions },
+  ) {
+    let content: proto.IMessage;
+    try {
+      const socket = this.readySocket();
+      const waveformProxy = await this.preprocessMessageContent(
+        messageContent,
+        options?.mediaPreprocessing,
+      );
+      if ("liveLocation" in messageContent) {
+        content = { liveLocationMessage: messageContent.liveLocation };
+      } else {
+        const generationOptions: MessageContentGenerationOptions & {
+          waveformProxy: Buffer | null;
+        } = {
+          logger: baileysLogger,
+          upload: socket.waUploadToServer,
+          waveformProxy,
+        };
+        content = await generateWAMessageContent(
+          messageContent,
+          generationOptions,
         );
       }
+    } finally {
+      this.releaseMessageContent(messageContent);
+    }
 
-      throw error;
+    const job = await this.bulkMessageJobStore.createJob({
+      recipients,
+      content,
+    });
+    this.startBulkMessageJob(job.id, recipients, content);
+    return job;
+  }
+
+  /**
+   * @description Resume the bulk message jobs that were running when the API stopped.
+   * Recipients that already have a result are not sent again.
+   */
+  async resumeBulkMessageJobs() {
+    for (const jobId of await this.bulkMessageJobStore.getRunningJobIds()) {
+      const [job, payload] = await Promise.all([
+        this.bulkMessageJobStore.getJob(jobId),
+        this.bulkMessageJobStore.getJobPayload(jobId),
+      ]);
+      if (!job || !payload) {
+        await this.bulkMessageJobStore.completeJob(jobId, "interrupted");
+        continue;
+      }
+      logger.info(
+        "[%s] [sendBulkMessage] Resuming job %s",
+        this.phoneNumber,
+        jobId,
+      );
+      this.startBulkMessageJob(
+        jobId,
+        payload.recipients,
+        payload.content,
+        job.recipients,
+      );
+    }
+  }
+
+  getBulkMessageJob(jobId: string) {
+    return this.bulkMessageJobStore.getJob(jobId);
+  }
+
+  private startBulkMessageJob(
+    jobId: string,
+    recipients: BulkMessageRecipient[],
+    content: proto.IMessage,
+    results?: BulkMessageRecipientResult[],
+  ) {
+    this.runBulkMessageJob(jobId, recipients, content, results).catch(
+      (error) => {
+        logger.error(
+          "[%s] [sendBulkMessage] Job %s failed: %s",
+          this.phoneNumber,
+          jobId,
+          errorToString(error),
+        );
+      },
+    );
+  }
+
+  private async runBulkMessageJob(
+    jobId: string,
+    recipients: BulkMessageRecipient[],
+    content: proto.IMessage,
+    results?: BulkMessageRecipientResult[],
+  ) {
+    for (const [index, { jid, variables }] of recipients.entries()) {
+      if (results && results[index]?.status !== "pending") {
+        continue;
+      }
+      let result: BulkMessageRecipientResult | null = null;
+      while (!result) {
+        if (!(await this.waitUntilOpen())) {
+          await this.bulkMessageJobStore.completeJob(jobId, "interrupted");
+          logger.warn(
+            "[%s] [sendBulkMessage] Job %s interrupted, the connection was closed",
+            this.phoneNumber,
+            jobId,
+          );
+          return;
+        }
+        try {
+          const recipientJid = await this.checkOnWhatsApp(jid);
+          if (recipientJid) {
+            await waitForSendSlot(this.phoneNumber);
+            const message = await this.relayMessageContent(
+              recipientJid,
+              applyTemplateVariables(content, variables ?? {}),
+            );
+            result = {
+              jid,
+              status: "sent",
+              key: message.key,
+              messageTimestamp: message.messageTimestamp,
+            };
+          } else {
+            result = { jid, status: "not-on-whatsapp" };
+          }
+        } catch (error) {
+          // NOTE: Retried once the connection is open again, instead of failing the recipient.
+          if (!this.isOpen) {
+            continue;
+          }
+          result = { jid, status: "failed", error: errorToString(error) };
+        }
+      }
+      await this.bulkMessageJobStore.updateRecipient(jobId, index, result);
+    }
+
+    await this.bulkMessageJobStore.completeJob(jobId);
+    logger.info(
+      "[%s] [sendBulkMessage] Job %s completed",
+      this.phoneNumber,
+      jobId,
+    );
+  }
+
+  /**
+   * @description Wait for the connection to be open, e.g. while it is reconnecting.
+   *
+   * @returns `false` if the connection was closed for good.
+   */
+  private async waitUntilOpen() {
+    while (!this.isOpen) {
+      if (this.isClosed) {
+        return false;
+      }
+      await asyncSleep(CONNECTION_OPEN_POLL_MS);
+    }
+    return true;
+  }
+
+  /**
+   * @returns The JID WhatsApp knows the recipient by, or `null` if it is not on WhatsApp.
+   * Only phone number JIDs are checked, other JIDs (e.g. groups) are returned as is.
+   */
+  private async checkOnWhatsApp(jid: string) {
+    if (!isPnUser(jid)) {
+      return jid;
     }
+    const [result] = (await this.safeSocket().onWhatsApp(jid)) ?? [];
+    return result?.exists ? result.jid : null;
+  }
+
+  async forwardMessage(jid: string, key: proto.IMessageKey) {
+    const socket = this.safeSocket();
+    const message = await this.getStoredMessage(key);
+
+    const response = await socket.sendMessage(jid, { forward: message });
+    if (response) {
+      await this.trackSentMessage(response.key);
+      await this.storeSentMessage(response);
+    }
+    return response;
+  }
+
+  async editMessage(
+    key: proto.IMessageKey,
+    text: string,
+    messageTimestamp?: number,
+  ) {
+    const socket = this.readySocket();
+
+    if (!key.fromMe) {
+      throw new BaileysMessageNotEditableError(
+        "only messages sent by this connection can be edited",
+      );
+    }
+    // NOTE: Fall back to the stored message timestamp to check the edit window.
+    const storedMessage =
+      messageTimestamp || !key.id
+        ? null
+        : await this.messageStore.getMessage(key.id);
+    const sentAt =
+      messageTimestamp ?? toNumber(storedMessage?.messageTimestamp);
+    if (sentAt && Date.now() / 1000 - sentAt > MESSAGE_EDIT_WINDOW_SECONDS) {
+      throw new BaileysMessageNotEditableError(
+        "edit window of 15 minutes has expired",
+      );
+    }
+
+    const response = await socket.sendMessage(key.remoteJid as string, {
+      text,
+      edit: key,
+    });
+    await this.storeEditedMessage(key, text);
+    return response;
+  }
+
+  deleteMessage(key: proto.IMessageKey) {
+    return this.readySocket().sendMessage(key.remoteJid as string, {
+      delete: key,
+    });
+  }
+
+  enqueueMessage(
+    message: Omit<QueuedMessage, "id" | "attempts" | "createdAt">,
+  ) {
+    return this.messageQueue.enqueueMessage(message);
+  }
+
+  scheduleMessage(message: Omit<ScheduledMessage, "id" | "createdAt">) {
+    return this.scheduledMessageStore.scheduleMessage(message);
+  }
+
+  getScheduledMessages() {
+    return this.scheduledMessageStore.getScheduledMessages();
+  }
+
+  cancelScheduledMessage(messageId: string) {
+    return this.scheduledMessageStore.cancelScheduledMessage(messageId);
   }
 
   sendPresenceUpdate(type: WAPresence, toJid?: string | undefined) {
@@ -406,6 +1159,43 @@ export class BaileysConnection {
     );
   }
 
+  /**
+   * @description Request message history from the phone and wait for the history chunk
+   * answering the request.
+   *
+   * @param timeoutMs Maximum time to wait for the phone to send the history.
+   * @returns The request id and the messages of the history chunk.
+   */
+  async fetchMessageHistoryAndWait(
+    count: number,
+    oldestMsgKey: proto.IMessageKey,
+    oldestMsgTimestamp: number,
+    timeoutMs: number,
+  ) {
+    const requestId = await this.fetchMessageHistory(
+      count,
+      oldestMsgKey,
+      oldestMsgTimestamp,
+    );
+    const history = await new Promise<
+      BaileysEventMap["messaging-history.set"] | null
+    >((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingHistoryRequests.delete(requestId);
+        resolve(null);
+      }, timeoutMs);
+      this.pendingHistoryRequests.set(requestId, (data) => {
+        clearTimeout(timeout);
+        this.pendingHistoryRequests.delete(requestId);
+        resolve(data);
+      });
+    });
+    if (!history) {
+      throw new BaileysHistoryFetchTimeoutError(requestId);
+    }
+    return { requestId, messages: history.messages };
+  }
+
   sendReceipts(keys: proto.IMessageKey[], type: MessageReceiptType) {
     return this.safeSocket().sendReceipts(keys, type);
   }
@@ -414,10 +1204,370 @@ export class BaileysConnection {
     return this.safeSocket().profilePictureUrl(jid, type);
   }
 
+  async getProfile() {
+    const socket = this.readySocket();
+    const jid = jidNormalizedUser(socket.user?.id);
+
+    // NOTE: The about text and picture may be hidden by privacy settings or not set, which is not an error here.
+    const [status] =
+      (await socket.fetchStatus(jid).catch(() => undefined)) ?? [];
+    const about = status?.status as
+      | { status: string | null; setAt: Date }
+      | undefined;
+    const profilePictureUrl = await socket
+      .profilePictureUrl(jid, "image")
+      .catch(() => undefined);
+
+    return {
+      jid,
+      name: socket.user?.name ?? null,
+      about: about?.status ?? null,
+      aboutSetAt: about?.setAt.getTime() || null,
+      profilePictureUrl: profilePictureUrl || null,
+    };
+  }
+
+  updateProfileName(name: string) {
+    return this.readySocket().updateProfileName(name);
+  }
+
+  updateProfileStatus(status: string) {
+    return this.readySocket().updateProfileStatus(status);
+  }
+
+  async updateProfilePicture(image: Buffer) {
+    const socket = this.readySocket();
+    const picture = await preprocessProfilePicture(image);
+    await socket.updateProfilePicture(
+      jidNormalizedUser(socket.user?.id),
+      picture,
+      { width: PROFILE_PICTURE_SIZE_PX, height: PROFILE_PICTURE_SIZE_PX },
+    );
+  }
+
+  removeProfilePicture() {
+    const socket = this.readySocket();
+    return socket.removeProfilePicture(jidNormalizedUser(socket.user?.id));
+  }
+
+  getChats(options: { cursor?: string; limit: number }) {
+    if (!this.chatStore) {
+      throw new BaileysChatStoreDisabledError();
+    }
+    return this.chatStore.getChats(options);
+  }
+
+  getChatMessages(jid: string, options: { cursor?: string; limit: number }) {
+    if (!this.chatStore) {
+      throw new BaileysChatStoreDisabledError();
+    }
+    return this.chatStore.getMessages(jidNormalizedUser(jid), options);
+  }
+
+  searchMessages(options: MessageSearchOptions) {
+    if (!this.chatStore) {
+      throw new BaileysChatStoreDisabledError();
+    }
+    return this.chatStore.searchMessages(options);
+  }
+
+  getContacts(options: { query?: string; offset: number; limit: number }) {
+    return this.contactStore.getContacts(options);
+  }
+
+  getContact(jid: string) {
+    return this.contactStore.getContact(jid);
+  }
+
+  async fetchBlocklist() {
+    const blocklist = await this.safeSocket().fetchBlocklist();
+    return blocklist.filter((jid): jid is string => !!jid);
+  }
+
+  async updateBlockStatus(jid: string, action: "block" | "unblock") {
+    await this.safeSocket().updateBlockStatus(jid, action);
+    this.updateCachedBlocklist(jid, action);
+  }
+
+  private updateCachedBlocklist(jid: string, action: "block" | "unblock") {
+    if (action === "block") {
+      this.blocklist?.add(jidNormalizedUser(jid));
+    } else {
+      this.blocklist?.delete(jidNormalizedUser(jid));
+    }
+  }
+
+  /**
+   * @description Remove incoming messages whose sender is blocked.
+   * The sender may be identified by its phone number or lid, so both are checked.
+   */
+  private async filterBlockedMessages(messages: WAMessage[]) {
+    if (!this.blocklist) {
+      try {
+        this.blocklist = new Set(
+          (await this.fetchBlocklist()).map(jidNormalizedUser),
+        );
+      } catch (error) {
+        // NOTE: Messages are kept when the blocklist is unavailable.
+        logger.error(
+          "[%s] [filterBlockedMessages] Failed to fetch blocklist: %s",
+          this.phoneNumber,
+          errorToString(error),
+        );
+        return messages;
+      }
+    }
+    const blocklist = this.blocklist;
+    const filtered = messages.filter(({ key }) => {
+      if (key.fromMe) {
+        return true;
+      }
+      const senders = [
+        key.remoteJid,
+        key.remoteJidAlt,
+        key.participant,
+        key.participantAlt,
+      ];
+      return !senders.some(
+        (jid) => jid && blocklist.has(jidNormalizedUser(jid)),
+      );
+    });
+    if (filtered.length < messages.length) {
+      logger.debug(
+        "[%s] [filterBlockedMessages] Dropped %d messages from blocked senders",
+        this.phoneNumber,
+        messages.length - filtered.length,
+      );
+    }
+    return filtered;
+  }
+
+  async fetchPrivacySettings(): Promise<Partial<PrivacySettings>> {
+    // NOTE: Baileys caches the settings, but not the updates made through it, so they are always fetched.
+    const settings = await this.safeSocket().fetchPrivacySettings(true);
+    return Object.fromEntries(
+      Object.entries(PRIVACY_SETTINGS_CATEGORIES)
+        .filter(([, category]) => settings[category] !== undefined)
+        .map(([setting, category]) => [setting, settings[category]]),
+    );
+  }
+
+  async updatePrivacySettings(settings: Partial<PrivacySettings>) {
+    const socket = this.safeSocket();
+    if (settings.lastSeen) {
+      await socket.updateLastSeenPrivacy(settings.lastSeen);
+    }
+    if (settings.online) {
+      await socket.updateOnlinePrivacy(settings.online);
+    }
+    if (settings.profilePicture) {
+      await socket.updateProfilePicturePrivacy(settings.profilePicture);
+    }
+    if (settings.about) {
+      await socket.updateStatusPrivacy(settings.about);
+    }
+    if (settings.readReceipts) {
+      await socket.updateReadReceiptsPrivacy(settings.readReceipts);
+    }
+    if (settings.groupAdd) {
+      await socket.updateGroupsAddPrivacy(settings.groupAdd);
+    }
+    if (settings.callAdd) {
+      await socket.updateCallPrivacy(settings.callAdd);
+    }
+  }
+
   onWhatsApp(jids: string[]) {
     return this.safeSocket().onWhatsApp(...jids);
   }
 
+  groupCreate(subject: string, participants: string[]) {
+    return this.safeSocket().groupCreate(subject, participants);
+  }
+
+  async groupFetchAllParticipating() {
+    return Object.values(await this.safeSocket().groupFetchAllParticipating());
+  }
+
+  async groupMetadata(jid: string) {
+    const metadata = await this.safeSocket().groupMetadata(jid);
+    await this.groupMetadataCache.set(jid, metadata);
+    return metadata;
+  }
+
+  groupUpdateSubject(jid: string, subject: string) {
+    return this.safeSocket().groupUpdateSubject(jid, subject);
+  }
+
+  groupUpdateDescription(jid: string, description?: string) {
+    return this.safeSocket().groupUpdateDescription(jid, description);
+  }
+
+  groupSettingUpdate(
+    jid: string,
+    setting: "announcement" | "not_announcement" | "locked" | "unlocked",
+  ) {
+    return this.safeSocket().groupSettingUpdate(jid, setting);
+  }
+
+  async groupParticipantsUpdate(
+    jid: string,
+    participants: string[],
+    action: ParticipantAction,
+  ) {
+    const results = await this.safeSocket().groupParticipantsUpdate(
+      jid,
+      participants,
+      action,
+    );
+    // NOTE: `content` is the raw result node, which is not useful outside Baileys.
+    return results.map(({ jid, status }) => ({ jid, status }));
+  }
+
+  async groupRequestParticipantsList(jid: string) {
+    const requests = await this.safeSocket().groupRequestParticipantsList(jid);
+    return requests.map((request) => ({
+      jid: request.jid as string,
+      phoneNumber: jidToPhoneNumber(request.phone_number as string | undefined),
+      requestMethod: (request.request_method as string | undefined) ?? null,
+      requestTime: request.request_time ? Number(request.request_time) : null,
+    }));
+  }
+
+  groupRequestParticipantsUpdate(
+    jid: string,
+    participants: string[],
+    action: "approve" | "reject",
+  ) {
+    return this.safeSocket().groupRequestParticipantsUpdate(
+      jid,
+      participants,
+      action,
+    );
+  }
+
+  groupJoinApprovalMode(jid: string, mode: "on" | "off") {
+    return this.safeSocket().groupJoinApprovalMode(jid, mode);
+  }
+
+  groupInviteCode(jid: string) {
+    return this.safeSocket().groupInviteCode(jid);
+  }
+
+  groupRevokeInvite(jid: string) {
+    return this.safeSocket().groupRevokeInvite(jid);
+  }
+
+  groupAcceptInvite(code: string) {
+    return this.safeSocket().groupAcceptInvite(code);
+  }
+
+  groupLeave(jid: string) {
+    return this.safeSocket().groupLeave(jid);
+  }
+
+  private async getStoredMessage(key: proto.IMessageKey): Promise<WAMessage> {
+    const message = key.id ? await this.messageStore.getMessage(key.id) : null;
+    if (!message) {
+      throw new BaileysMessageNotFoundError(key.id);
+    }
+    return message as WAMessage;
+  }
+
+  // NOTE: Replace the text of the stored message, so quoting or forwarding it uses the edited text.
+  private async storeEditedMessage(key: proto.IMessageKey, text: string) {
+    try {
+      const storedMessage = key.id
+        ? await this.messageStore.getMessage(key.id)
+        : null;
+      if (!storedMessage?.message) {
+        return;
+      }
+      const { extendedTextMessage, imageMessage, videoMessage } =
+        storedMessage.message;
+      // NOTE: Editing a media message edits its caption.
+      const mediaMessage = imageMessage ?? videoMessage;
+      if (extendedTextMessage) {
+        extendedTextMessage.text = text;
+      } else if (mediaMessage) {
+        mediaMessage.caption = text;
+      } else {
+        storedMessage.message = { conversation: text };
+      }
+      await this.messageStore.saveMessages([storedMessage]);
+    } catch (error) {
+      logger.error(
+        "[%s] [storeEditedMessage] Failed to store edited message %s: %s",
+        this.phoneNumber,
+        key.id,
+        errorToString(error),
+      );
+    }
+  }
+
+  private async storeSentMessage(message: proto.IWebMessageInfo) {
+    try {
+      await this.messageStore.saveMessages([message]);
+      if (isPollCreationMessage(message.message)) {
+        await this.pollStore.savePoll(message);
+      }
+    } catch (error) {
+      logger.error(
+        "[%s] [storeSentMessage] Failed to store message %s: %s",
+        this.phoneNumber,
+        message.key?.id,
+        errorToString(error),
+      );
+    }
+  }
+
+  private readySocket() {
+    const socket = this.safeSocket();
+
+    // Check if connection is ready
+    if (!socket.user?.id) {
+      throw new Error(
+        "Connection not ready. Please wait for the connection to be fully established before sending messages.",
+      );
+    }
+    if (!this.isOpen) {
+      throw new BaileysConnectionClosedError();
+    }
+    return socket;
+  }
+
+  getMessageStatus(messageId: string) {
+    return this.messageStatusStore.getMessageStatus(messageId);
+  }
+
+  private async trackSentMessage(key: proto.IMessageKey) {
+    try {
+      await this.messageStatusStore.trackMessage(key);
+    } catch (error) {
+      logger.error(
+        "[%s] [trackSentMessage] Failed to track message %s: %s",
+        this.phoneNumber,
+        key.id,
+        errorToString(error),
+      );
+    }
+  }
+
+  private async trackSentMessageFailure(messageId: string, error: string) {
+    try {
+      await this.messageStatusStore.updateStatus(messageId, "failed", {
+        error,
+      });
+    } catch (storeError) {
+      logger.error(
+        "[%s] [trackSentMessageFailure] Failed to track message %s: %s",
+        this.phoneNumber,
+        messageId,
+        errorToString(storeError),
+      );
+    }
+  }
+
   private safeSocket() {
     if (!this.socket) {
       throw new BaileysNotConnectedError();
@@ -452,6 +1602,7 @@ export class BaileysConnection {
     }
 
     if (connection === "close") {
+      this.isOpen = false;
       // TODO: Drop @hapi/boom dependency.
       const error = lastDisconnect?.error as Boom;
       const statusCode = error?.output?.statusCode;
@@ -499,6 +1650,7 @@ export class BaileysConnection {
 
     if (data.connection === "open") {
       this.reconnectCount = 0;
+      this.isOpen = true;
     }
 
     this.sendToWebhook({
@@ -507,7 +1659,19 @@ export class BaileysConnection {
     });
   }
 
-  private async handleMessagesUpsert(data: BaileysEventMap["messages.upsert"]) {
+  private async handleMessagesUpsert(
+    upsert: BaileysEventMap["messages.upsert"],
+  ) {
+    const data = this.dropBlockedMessages
+      ? {
+          ...upsert,
+          messages: await this.filterBlockedMessages(upsert.messages),
+        }
+      : upsert;
+    if (data.messages.length === 0) {
+      return;
+    }
+
     const payload: BaileysConnectionWebhookPayload = {
       event: "messages.upsert",
       data,
@@ -520,8 +1684,29 @@ export class BaileysConnection {
       payload.extra = { media };
     }
 
-    // Enrich payload with group names for group messages
+    await this.messageStore.saveMessages(data.messages).catch((error) => {
+      logger.error(
+        "[%s] [handleMessagesUpsert] Failed to store messages: %s",
+        this.phoneNumber,
+        errorToString(error),
+      );
+    });
+
+    await this.chatStore
+      ?.saveMessages(data.messages)
+      .catch(this.logStoreError("chatStore", "messages.upsert"));
+
+    await this.handlePollMessages(data.messages).catch((error) => {
+      logger.error(
+        "[%s] [handleMessagesUpsert] Failed to handle poll messages: %s",
+        this.phoneNumber,
+        errorToString(error),
+      );
+    });
+
+    // Enrich payload with group names and participants for group messages
     const groupNames: Record<string, string> = {};
+    const groupParticipants: Record<string, GroupParticipant[]> = {};
     const groupJids = new Set<string>();
 
     // Collect unique group JIDs from messages
@@ -532,14 +1717,19 @@ export class BaileysConnection {
       }
     }
 
-    // Fetch group names using groupMetadata API
-    if (groupJids.size > 0 && this.socket) {
+    // Fetch group metadata, from the cache when available
+    const socket = this.socket;
+    if (groupJids.size > 0 && socket) {
       for (const groupJid of groupJids) {
         try {
-          const metadata = await this.socket.groupMetadata(groupJid);
+          const metadata = await this.groupMetadataCache.fetch(
+            groupJid,
+            (jid) => socket.groupMetadata(jid),
+          );
           if (metadata.subject) {
             groupNames[groupJid] = metadata.subject;
           }
+          groupParticipants[groupJid] = metadata.participants;
         } catch (error) {
           logger.debug(
             "[%s] [handleMessagesUpsert] Failed to get group name for %s: %s",
@@ -550,10 +1740,11 @@ export class BaileysConnection {
         }
       }
 
-      if (Object.keys(groupNames).length > 0) {
+      if (Object.keys(groupParticipants).length > 0) {
         payload.extra = {
           ...(payload.extra || {}),
           groupNames,
+          groupParticipants,
         };
       }
     }
@@ -561,31 +1752,208 @@ export class BaileysConnection {
     this.sendToWebhook(payload);
   }
 
-  private handleMessagesUpdate(data: BaileysEventMap["messages.update"]) {
-    this.sendToWebhook(
-      {
-        event: "messages.update",
-        data,
-      },
-      {
-        awaitResponse: true,
-      },
+  private async handleMessagesUpdate(data: BaileysEventMap["messages.update"]) {
+    const payload: BaileysConnectionWebhookPayload = {
+      event: "messages.update",
+      data,
+    };
+
+    const pollVotes = await this.aggregatePollUpdates(data);
+    if (pollVotes) {
+      payload.extra = { pollVotes };
+    }
+
+    this.sendToWebhook(payload, {
+      awaitResponse: true,
+    });
+
+    await this.chatStore
+      ?.updateMessages(data)
+      .catch(this.logStoreError("chatStore", "messages.update"));
+
+    for (const { key, update } of data) {
+      const status =
+        typeof update.status === "number"
+          ? messageStatusFromProto(update.status)
+          : undefined;
+      if (key.id && key.fromMe && status) {
+        await this.messageStatusStore.updateStatus(key.id, status);
+      }
+    }
+  }
+
+  private async handlePollMessages(messages: proto.IWebMessageInfo[]) {
+    const pollUpdates: BaileysEventMap["messages.update"] = [];
+
+    for (const message of messages) {
+      const content = normalizeMessageContent(message.message);
+      if (isPollCreationMessage(content)) {
+        await this.pollStore.savePoll(message);
+      }
+
+      // NOTE: Poll votes arrive as encrypted `pollUpdateMessage`s, so we forward them as `messages.update` on the poll creation message.
+      const pollUpdateMessage = content?.pollUpdateMessage;
+      if (pollUpdateMessage?.pollCreationMessageKey) {
+        pollUpdates.push({
+          key: pollUpdateMessage.pollCreationMessageKey,
+          update: {
+            pollUpdates: [
+              {
+                pollUpdateMessageKey: message.key,
+                vote: pollUpdateMessage.vote as proto.Message.IPollVoteMessage,
+                senderTimestampMs: pollUpdateMessage.senderTimestampMs,
+              },
+            ],
+          },
+        });
+      }
+    }
+
+    if (pollUpdates.length > 0) {
+      await this.handleMessagesUpdate(pollUpdates);
+    }
+  }
+
+  private async aggregatePollUpdates(
+    data: BaileysEventMap["messages.update"],
+  ): Promise<Record<string, PollVotesTally[]> | null> {
+    const pollVotes: Record<string, PollVotesTally[]> = {};
+    const meIds = [this.socket?.user?.id, this.socket?.user?.lid].filter(
+      (jid): jid is string => !!jid,
     );
+    const meId = meIds[0] ? jidNormalizedUser(meIds[0]) : undefined;
+
+    for (const { key, update } of data) {
+      if (!key.id || !update.pollUpdates?.length) {
+        continue;
+      }
+
+      const pollMessage = await this.pollStore.getPoll(key.id);
+      if (!pollMessage) {
+        logger.warn(
+          "[%s] [aggregatePollUpdates] Poll creation message %s not found, cannot decrypt votes",
+          this.phoneNumber,
+          key.id,
+        );
+        continue;
+      }
+
+      const decryptedPollUpdates: proto.IPollUpdate[] = [];
+      for (const pollUpdate of update.pollUpdates) {
+        const decryptedPollUpdate = decryptPollUpdate(pollUpdate, {
+          pollMessage,
+          meIds,
+        });
+        if (!decryptedPollUpdate?.pollUpdateMessageKey) {
+          logger.warn(
+            "[%s] [aggregatePollUpdates] Failed to decrypt vote for poll %s",
+            this.phoneNumber,
+            key.id,
+          );
+          continue;
+        }
+        await this.pollStore.saveVote(
+          key.id,
+          getKeyAuthor(decryptedPollUpdate.pollUpdateMessageKey, meId),
+          decryptedPollUpdate,
+        );
+        decryptedPollUpdates.push(decryptedPollUpdate);
+      }
+      update.pollUpdates = decryptedPollUpdates;
+
+      pollVotes[key.id] = aggregatePollVotes(
+        pollMessage,
+        await this.pollStore.getVotes(key.id),
+        meId,
+      );
+    }
+
+    return Object.keys(pollVotes).length > 0 ? pollVotes : null;
   }
 
-  private handleMessageReceiptUpdate(
+  private async handleMessageReceiptUpdate(
     data: BaileysEventMap["message-receipt.update"],
   ) {
     this.sendToWebhook({
       event: "message-receipt.update",
       data,
     });
+
+    for (const { key, receipt } of data) {
+      if (!key.id || !key.fromMe) {
+        continue;
+      }
+      for (const [status, timestamp] of messageStatusesFromReceipt(receipt)) {
+        await this.messageStatusStore.updateStatus(key.id, status, {
+          participant: receipt.userJid ?? undefined,
+          timestamp,
+        });
+      }
+    }
   }
 
-  private handleMessagingHistorySet(
+  private async handleGroupJoinRequest(
+    data: BaileysEventMap["group.join-request"],
+  ) {
+    const socket = this.socket;
+    let participantPn = data.participantPn ?? null;
+    if (!participantPn && socket) {
+      participantPn = isPnUser(data.participant)
+        ? data.participant
+        : await socket.signalRepository.lidMapping
+            .getPNForLID(data.participant)
+            .catch(() => null);
+    }
+
+    let groupSubject: string | null = null;
+    if (socket) {
+      try {
+        const metadata = await this.groupMetadataCache.fetch(data.id, (jid) =>
+          socket.groupMetadata(jid),
+        );
+        groupSubject = metadata.subject;
+      } catch (error) {
+        logger.debug(
+          "[%s] [handleGroupJoinRequest] Failed to get group name for %s: %s",
+          this.phoneNumber,
+          data.id,
+          errorToString(error),
+        );
+      }
+    }
+
+    this.sendToWebhook({
+      event: "group.join-request",
+      data,
+      extra: {
+        phoneNumber: jidToPhoneNumber(participantPn),
+        groupSubject,
+      },
+    });
+  }
+
+  private async handleMessagingHistorySet(
     data: BaileysEventMap["messaging-history.set"],
   ) {
-    if (!this.syncFullHistory) {
+    const isOnDemand =
+      data.syncType === proto.HistorySync.HistorySyncType.ON_DEMAND;
+    if (isOnDemand && data.peerDataRequestSessionId) {
+      this.pendingHistoryRequests.get(data.peerDataRequestSessionId)?.(data);
+    }
+
+    // NOTE: Contacts are stored even when the history is not sent to the webhook.
+    await this.contactStore
+      .saveContacts(data.contacts)
+      .catch(this.logStoreError("contactStore", "messaging-history.set"));
+    if (this.chatStore) {
+      await this.chatStore
+        .saveChats(data.chats)
+        .then(() => this.chatStore?.saveMessages(data.messages))
+        .catch(this.logStoreError("chatStore", "messaging-history.set"));
+    }
+
+    // NOTE: On-demand history was explicitly requested, so it is sent even without `syncFullHistory`.
+    if (!this.syncFullHistory && !isOnDemand) {
       return;
     }
 
@@ -621,7 +1989,7 @@ export class BaileysConnection {
     });
   }
 
-  private async sendToWebhook(
+  async sendToWebhook(
     payload: BaileysConnectionWebhookPayload,
     options?: {
       awaitResponse?: boolean;
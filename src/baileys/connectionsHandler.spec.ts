@@ -9,6 +9,7 @@ describe("BaileysConnectionsHandler", () => {
       it.todo("logs the number of saved connections", () => {});
       it.todo("creates and connects a BaileysConnection for each saved auth state", () => {});
       it.todo("sets up the onConnectionClose callback to remove the connection", () => {});
+      it.todo("resumes the running bulk message jobs of each connection", () => {});
     });
   });
 
@@ -23,11 +24,212 @@ describe("BaileysConnectionsHandler", () => {
     it.todo("call sendPresenceUpdate on the correct connection", () => {});
   });
 
+  describe("#assertReadyToSend", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call assertReadyToSend on the correct connection", () => {});
+  });
+
   describe("#sendMessage", () => {
     it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
     it.todo("call sendMessage on the correct connection", () => {});
   });
 
+  describe("#sendBulkMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call sendBulkMessage on the correct connection", () => {});
+  });
+
+  describe("#getBulkMessageJob", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getBulkMessageJob on the correct connection", () => {});
+  });
+
+  describe("#getMessageStatus", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getMessageStatus on the correct connection", () => {});
+  });
+
+  describe("#enqueueMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call enqueueMessage on the correct connection", () => {});
+  });
+
+  describe("#scheduleMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call scheduleMessage on the correct connection", () => {});
+  });
+
+  describe("#getScheduledMessages", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getScheduledMessages on the correct connection", () => {});
+  });
+
+  describe("#cancelScheduledMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call cancelScheduledMessage on the correct connection", () => {});
+  });
+
+  describe("#getProfile", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getProfile on the correct connection", () => {});
+  });
+
+  describe("#updateProfileName", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call updateProfileName on the correct connection", () => {});
+  });
+
+  describe("#updateProfileStatus", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call updateProfileStatus on the correct connection", () => {});
+  });
+
+  describe("#updateProfilePicture", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call updateProfilePicture on the correct connection", () => {});
+  });
+
+  describe("#removeProfilePicture", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call removeProfilePicture on the correct connection", () => {});
+  });
+
+  describe("#getChats", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getChats on the correct connection", () => {});
+  });
+
+  describe("#getChatMessages", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getChatMessages on the correct connection", () => {});
+  });
+
+  describe("#searchMessages", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call searchMessages on the correct connection", () => {});
+  });
+
+  describe("#getContacts", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getContacts on the correct connection", () => {});
+  });
+
+  describe("#getContact", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call getContact on the correct connection", () => {});
+  });
+
+  describe("#fetchBlocklist", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call fetchBlocklist on the correct connection", () => {});
+  });
+
+  describe("#updateBlockStatus", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call updateBlockStatus on the correct connection", () => {});
+  });
+
+  describe("#fetchPrivacySettings", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call fetchPrivacySettings on the correct connection", () => {});
+  });
+
+  describe("#updatePrivacySettings", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call updatePrivacySettings on the correct connection", () => {});
+  });
+
+  describe("#groupCreate", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupCreate on the correct connection", () => {});
+  });
+
+  describe("#groupFetchAllParticipating", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupFetchAllParticipating on the correct connection", () => {});
+  });
+
+  describe("#groupMetadata", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupMetadata on the correct connection", () => {});
+  });
+
+  describe("#groupUpdateSubject", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupUpdateSubject on the correct connection", () => {});
+  });
+
+  describe("#groupUpdateDescription", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupUpdateDescription on the correct connection", () => {});
+  });
+
+  describe("#groupSettingUpdate", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupSettingUpdate on the correct connection", () => {});
+  });
+
+  describe("#groupParticipantsUpdate", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupParticipantsUpdate on the correct connection", () => {});
+  });
+
+  describe("#groupRequestParticipantsList", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupRequestParticipantsList on the correct connection", () => {});
+  });
+
+  describe("#groupRequestParticipantsUpdate", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupRequestParticipantsUpdate on the correct connection", () => {});
+  });
+
+  describe("#groupJoinApprovalMode", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupJoinApprovalMode on the correct connection", () => {});
+  });
+
+  describe("#groupInviteCode", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupInviteCode on the correct connection", () => {});
+  });
+
+  describe("#groupRevokeInvite", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupRevokeInvite on the correct connection", () => {});
+  });
+
+  describe("#groupAcceptInvite", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupAcceptInvite on the correct connection", () => {});
+  });
+
+  describe("#groupLeave", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call groupLeave on the correct connection", () => {});
+  });
+
+  describe("#sendToWebhook", () => {
+    it.todo("send the event through the connection if it exists", () => {});
+    it.todo("send the event to the webhook saved in the auth store if the connection is down", () => {});
+    it.todo("drop the event if there is no saved webhook", () => {});
+  });
+
+  describe("#forwardMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call forwardMessage on the correct connection", () => {});
+  });
+
+  describe("#editMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call editMessage on the correct connection", () => {});
+  });
+
+  describe("#deleteMessage", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call deleteMessage on the correct connection", () => {});
+  });
+
   describe("#readMessages", () => {
     it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
     it.todo("call readMessages on the correct connection", () => {});
@@ -43,6 +245,11 @@ describe("BaileysConnectionsHandler", () => {
     it.todo("call fetchMessageHistory on the correct connection", () => {});
   });
 
+  describe("#fetchMessageHistoryAndWait", () => {
+    it.todo("throw BaileysNotConnectedError if no connection exists", () => {});
+    it.todo("call fetchMessageHistoryAndWait on the correct connection", () => {});
+  });
+
   describe("#profilePictureUrl", () => {
     it.todo("should return an error when profile picture is not found", () => {});
     it.todo("should call profilePictureUrl on the correct connection", () => {});
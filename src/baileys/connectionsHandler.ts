@@ -1,6 +1,6 @@
 import type {
-  AnyMessageContent,
   ChatModification,
+  ParticipantAction,
   proto,
   WAPresence,
 } from "@whiskeysockets/baileys";
@@ -8,12 +8,24 @@ import {
   BaileysConnection,
   BaileysNotConnectedError,
 } from "@/baileys/connection";
-import { getRedisSavedAuthStateIds } from "@/baileys/redisAuthState";
+import type { MediaPreprocessingOptions } from "@/baileys/helpers/preprocessMedia";
+import {
+  getRedisSavedAuthStateIds,
+  getRedisSavedAuthStateMetadata,
+} from "@/baileys/redisAuthState";
 import type {
   BaileysConnectionOptions,
+  BaileysConnectionWebhookPayload,
+  BaileysMessageContent,
+  BulkMessageRecipient,
   FetchMessageHistoryOptions,
+  MessageSearchOptions,
+  PrivacySettings,
+  QueuedMessage,
+  ScheduledMessage,
   SendReceiptsOptions,
 } from "@/baileys/types";
+import { errorToString } from "@/helpers/errorToString";
 import logger from "@/lib/logger";
 
 export class BaileysConnectionsHandler {
@@ -51,6 +63,13 @@ export class BaileysConnectionsHandler {
       });
       this.connections[id] = connection;
       await connection.connect();
+      connection.resumeBulkMessageJobs().catch((error) => {
+        logger.error(
+          "[%s] Failed to resume bulk message jobs: %s",
+          id,
+          errorToString(error),
+        );
+      });
     }
   }
 
@@ -103,17 +122,138 @@ export class BaileysConnectionsHandler {
     return this.getConnection(phoneNumber).sendPresenceUpdate(type, toJid);
   }
 
+  /**
+   * @description Check that the connection can send messages, before preparing them.
+   */
+  assertReadyToSend(phoneNumber: string) {
+    this.getConnection(phoneNumber).assertReadyToSend();
+  }
+
   sendMessage(
     phoneNumber: string,
     {
       jid,
       messageContent,
+      quotedMessageKey,
+      mediaPreprocessing,
+      simulateTyping,
     }: {
       jid: string;
-      messageContent: AnyMessageContent;
+      messageContent: BaileysMessageContent;
+      quotedMessageKey?: proto.IMessageKey;
+      mediaPreprocessing?: MediaPreprocessingOptions;
+      simulateTyping?: boolean;
     },
   ) {
-    return this.getConnection(phoneNumber).sendMessage(jid, messageContent);
+    return this.getConnection(phoneNumber).sendMessage(jid, messageContent, {
+      quotedMessageKey,
+      mediaPreprocessing,
+      simulateTyping,
+    });
+  }
+
+  sendBulkMessage(
+    phoneNumber: string,
+    {
+      recipients,
+      messageContent,
+      mediaPreprocessing,
+    }: {
+      recipients: BulkMessageRecipient[];
+      messageContent: BaileysMessageContent;
+      mediaPreprocessing?: MediaPreprocessingOptions;
+    },
+  ) {
+    return this.getConnection(phoneNumber).sendBulkMessage(
+      recipients,
+      messageContent,
+      { mediaPreprocessing },
+    );
+  }
+
+  getBulkMessageJob(phoneNumber: string, jobId: string) {
+    return this.getConnection(phoneNumber).getBulkMessageJob(jobId);
+  }
+
+  getMessageStatus(phoneNumber: string, messageId: string) {
+    return this.getConnection(phoneNumber).getMessageStatus(messageId);
+  }
+
+  enqueueMessage(
+    phoneNumber: string,
+    message: Omit<QueuedMessage, "id" | "attempts" | "createdAt">,
+  ) {
+    return this.getConnection(phoneNumber).enqueueMessage(message);
+  }
+
+  scheduleMessage(
+    phoneNumber: string,
+    message: Omit<ScheduledMessage, "id" | "createdAt">,
+  ) {
+    return this.getConnection(phoneNumber).scheduleMessage(message);
+  }
+
+  getScheduledMessages(phoneNumber: string) {
+    return this.getConnection(phoneNumber).getScheduledMessages();
+  }
+
+  cancelScheduledMessage(phoneNumber: string, messageId: string) {
+    return this.getConnection(phoneNumber).cancelScheduledMessage(messageId);
+  }
+
+  /**
+   * @description Send an event to the connection webhook. If the connection is down, the webhook
+   * it was created with is read from the auth store.
+   */
+  async sendToWebhook(
+    phoneNumber: string,
+    payload: BaileysConnectionWebhookPayload,
+  ) {
+    const connection = this.connections[phoneNumber];
+    if (connection) {
+      return connection.sendToWebhook(payload);
+    }
+
+    const metadata =
+      await getRedisSavedAuthStateMetadata<
+        Omit<BaileysConnectionOptions, "phoneNumber" | "onConnectionClose">
+      >(phoneNumber);
+    if (!metadata) {
+      logger.warn(
+        "[%s] [sendToWebhook] No saved webhook, dropping %s event",
+        phoneNumber,
+        payload.event,
+      );
+      return;
+    }
+    // NOTE: The connection is only used to send the webhook, it is never connected.
+    return new BaileysConnection(phoneNumber, metadata).sendToWebhook(payload);
+  }
+
+  forwardMessage(
+    phoneNumber: string,
+    { jid, key }: { jid: string; key: proto.IMessageKey },
+  ) {
+    return this.getConnection(phoneNumber).forwardMessage(jid, key);
+  }
+
+  editMessage(
+    phoneNumber: string,
+    {
+      key,
+      text,
+      messageTimestamp,
+    }: { key: proto.IMessageKey; text: string; messageTimestamp?: number },
+  ) {
+    return this.getConnection(phoneNumber).editMessage(
+      key,
+      text,
+      messageTimestamp,
+    );
+  }
+
+  deleteMessage(phoneNumber: string, key: proto.IMessageKey) {
+    return this.getConnection(phoneNumber).deleteMessage(key);
   }
 
   readMessages(phoneNumber: string, keys: proto.IMessageKey[]) {
@@ -135,6 +275,23 @@ export class BaileysConnectionsHandler {
     );
   }
 
+  fetchMessageHistoryAndWait(
+    phoneNumber: string,
+    {
+      count,
+      oldestMsgKey,
+      oldestMsgTimestamp,
+      timeoutMs,
+    }: FetchMessageHistoryOptions & { timeoutMs: number },
+  ) {
+    return this.getConnection(phoneNumber).fetchMessageHistoryAndWait(
+      count,
+      oldestMsgKey,
+      oldestMsgTimestamp,
+      timeoutMs,
+    );
+  }
+
   sendReceipts(phoneNumber: string, { keys, type }: SendReceiptsOptions) {
     return this.getConnection(phoneNumber).sendReceipts(keys, type);
   }
@@ -151,6 +308,165 @@ export class BaileysConnectionsHandler {
     return this.getConnection(phoneNumber).onWhatsApp(jids);
   }
 
+  getProfile(phoneNumber: string) {
+    return this.getConnection(phoneNumber).getProfile();
+  }
+
+  updateProfileName(phoneNumber: string, name: string) {
+    return this.getConnection(phoneNumber).updateProfileName(name);
+  }
+
+  updateProfileStatus(phoneNumber: string, status: string) {
+    return this.getConnection(phoneNumber).updateProfileStatus(status);
+  }
+
+  updateProfilePicture(phoneNumber: string, image: Buffer) {
+    return this.getConnection(phoneNumber).updateProfilePicture(image);
+  }
+
+  removeProfilePicture(phoneNumber: string) {
+    return this.getConnection(phoneNumber).removeProfilePicture();
+  }
+
+  getChats(phoneNumber: string, options: { cursor?: string; limit: number }) {
+    return this.getConnection(phoneNumber).getChats(options);
+  }
+
+  getChatMessages(
+    phoneNumber: string,
+    jid: string,
+    options: { cursor?: string; limit: number },
+  ) {
+    return this.getConnection(phoneNumber).getChatMessages(jid, options);
+  }
+
+  searchMessages(phoneNumber: string, options: MessageSearchOptions) {
+    return this.getConnection(phoneNumber).searchMessages(options);
+  }
+
+  getContacts(
+    phoneNumber: string,
+    options: { query?: string; offset: number; limit: number },
+  ) {
+    return this.getConnection(phoneNumber).getContacts(options);
+  }
+
+  getContact(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).getContact(jid);
+  }
+
+  fetchBlocklist(phoneNumber: string) {
+    return this.getConnection(phoneNumber).fetchBlocklist();
+  }
+
+  updateBlockStatus(
+    phoneNumber: string,
+    jid: string,
+    action: "block" | "unblock",
+  ) {
+    return this.getConnection(phoneNumber).updateBlockStatus(jid, action);
+  }
+
+  fetchPrivacySettings(phoneNumber: string) {
+    return this.getConnection(phoneNumber).fetchPrivacySettings();
+  }
+
+  updatePrivacySettings(
+    phoneNumber: string,
+    settings: Partial<PrivacySettings>,
+  ) {
+    return this.getConnection(phoneNumber).updatePrivacySettings(settings);
+  }
+
+  groupCreate(phoneNumber: string, subject: string, participants: string[]) {
+    return this.getConnection(phoneNumber).groupCreate(subject, participants);
+  }
+
+  groupFetchAllParticipating(phoneNumber: string) {
+    return this.getConnection(phoneNumber).groupFetchAllParticipating();
+  }
+
+  groupMetadata(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).groupMetadata(jid);
+  }
+
+  groupUpdateSubject(phoneNumber: string, jid: string, subject: string) {
+    return this.getConnection(phoneNumber).groupUpdateSubject(jid, subject);
+  }
+
+  groupUpdateDescription(
+    phoneNumber: string,
+    jid: string,
+    description?: string,
+  ) {
+    return this.getConnection(phoneNumber).groupUpdateDescription(
+      jid,
+      description,
+    );
+  }
+
+  groupSettingUpdate(
+    phoneNumber: string,
+    jid: string,
+    setting: "announcement" | "not_announcement" | "locked" | "unlocked",
+  ) {
+    return this.getConnection(phoneNumber).groupSettingUpdate(jid, setting);
+  }
+
+  groupParticipantsUpdate(
+    phoneNumber: string,
+    {
+      jid,
+      participants,
+      action,
+    }: { jid: string; participants: string[]; action: ParticipantAction },
+  ) {
+    return this.getConnection(phoneNumber).groupParticipantsUpdate(
+      jid,
+      participants,
+      action,
+    );
+  }
+
+  groupRequestParticipantsList(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).groupRequestParticipantsList(jid);
+  }
+
+  groupRequestParticipantsUpdate(
+    phoneNumber: string,
+    {
+      jid,
+      participants,
+      action,
+    }: { jid: string; participants: string[]; action: "approve" | "reject" },
+  ) {
+    return this.getConnection(phoneNumber).groupRequestParticipantsUpdate(
+      jid,
+      participants,
+      action,
+    );
+  }
+
+  groupJoinApprovalMode(phoneNumber: string, jid: string, mode: "on" | "off") {
+    return this.getConnection(phoneNumber).groupJoinApprovalMode(jid, mode);
+  }
+
+  groupInviteCode(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).groupInviteCode(jid);
+  }
+
+  groupRevokeInvite(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).groupRevokeInvite(jid);
+  }
+
+  groupAcceptInvite(phoneNumber: string, code: string) {
+    return this.getConnection(phoneNumber).groupAcceptInvite(code);
+  }
+
+  groupLeave(phoneNumber: string, jid: string) {
+    return this.getConnection(phoneNumber).groupLeave(jid);
+  }
+
   async logout(phoneNumber: string) {
     await this.getConnection(phoneNumber).logout();
     delete this.connections[phoneNumber];
@@ -0,0 +1,25 @@
+import { describe, it } from "bun:test";
+
+describe("groupMetadataCache", () => {
+  describe("#useGroupMetadataCache", () => {
+    describe("get", () => {
+      it.todo("return metadata cached in memory", () => {});
+      it.todo("read metadata from Redis when persisted and not in memory", () => {});
+      it.todo("return undefined on a miss", () => {});
+    });
+
+    describe("set", () => {
+      it.todo("cache the metadata in memory", () => {});
+      it.todo("persist the metadata in Redis when enabled", () => {});
+    });
+
+    describe("fetch", () => {
+      it.todo("return cached metadata without fetching it", () => {});
+      it.todo("fetch and cache the metadata on a miss", () => {});
+    });
+
+    describe("invalidate", () => {
+      it.todo("remove the metadata from memory and Redis", () => {});
+    });
+  });
+});
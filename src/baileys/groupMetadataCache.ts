@@ -0,0 +1,82 @@
+import { BufferJSON, type GroupMetadata } from "@whiskeysockets/baileys";
+import { LRUCache } from "lru-cache";
+import config from "@/config";
+import { errorToString } from "@/helpers/errorToString";
+import logger from "@/lib/logger";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+// NOTE: Group metadata is kept in memory, and optionally in Redis so it survives restarts.
+// Entries are invalidated by group events, the TTL only bounds staleness if an event is missed.
+export function useGroupMetadataCache(id: string) {
+  const createKey = (jid: string) =>
+    `${redisKeyPrefix}:${id}:group-metadata:${jid}`;
+  const { maxGroups, ttlMinutes, persistInRedis } = config.groupMetadataCache;
+  const ttlMs = ttlMinutes * 60 * 1000;
+  const cache = new LRUCache<string, GroupMetadata>({
+    max: maxGroups,
+    ttl: ttlMs,
+  });
+
+  const get = async (jid: string): Promise<GroupMetadata | undefined> => {
+    const cached = cache.get(jid);
+    if (cached || !persistInRedis) {
+      return cached;
+    }
+    try {
+      const data = await redis.get(createKey(jid));
+      if (!data) {
+        return undefined;
+      }
+      const metadata: GroupMetadata = JSON.parse(data, BufferJSON.reviver);
+      cache.set(jid, metadata);
+      return metadata;
+    } catch (error) {
+      logger.error(
+        "[%s] [groupMetadataCache] Failed to read %s: %s",
+        id,
+        jid,
+        errorToString(error),
+      );
+      return undefined;
+    }
+  };
+
+  const set = async (jid: string, metadata: GroupMetadata) => {
+    cache.set(jid, metadata);
+    if (persistInRedis) {
+      await redis.set(
+        createKey(jid),
+        JSON.stringify(metadata, BufferJSON.replacer),
+        { PX: ttlMs },
+      );
+    }
+  };
+
+  return {
+    get,
+    set,
+    /**
+     * @description Get the metadata of a group, fetching and caching it on a miss.
+     */
+    fetch: async (
+      jid: string,
+      fetchMetadata: (jid: string) => Promise<GroupMetadata>,
+    ) => {
+      const cached = await get(jid);
+      if (cached) {
+        return cached;
+      }
+      const metadata = await fetchMetadata(jid);
+      await set(jid, metadata);
+      return metadata;
+    },
+    invalidate: async (jid: string) => {
+      cache.delete(jid);
+      if (persistInRedis) {
+        await redis.del(createKey(jid));
+      }
+    },
+  };
+}
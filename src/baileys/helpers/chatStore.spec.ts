@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createSortKey,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  mergeChat,
+  parseSortKey,
+} from "./chatStore";
+
+describe("chatStore helpers", () => {
+  describe("#createSortKey", () => {
+    it("sorts keys by timestamp, then by id", () => {
+      const keys = [
+        createSortKey(1_700_000_000_000, "B"),
+        createSortKey(999, "Z"),
+        createSortKey(1_700_000_000_000, "A"),
+      ];
+      expect(keys.sort().map((key) => parseSortKey(key).id)).toEqual([
+        "Z",
+        "A",
+        "B",
+      ]);
+    });
+
+    it("is parsed back by parseSortKey", () => {
+      expect(
+        parseSortKey(createSortKey(1_700_000_000_000, "120363@g.us")),
+      ).toEqual({ timestampMs: 1_700_000_000_000, id: "120363@g.us" });
+    });
+  });
+
+  describe("#decodeCursor", () => {
+    it("decodes cursors created by encodeCursor", () => {
+      const sortKey = createSortKey(1_700_000_000_000, "ABC");
+      expect(decodeCursor(encodeCursor(sortKey))).toBe(sortKey);
+    });
+
+    it("throws an InvalidCursorError for invalid cursors", () => {
+      expect(() => decodeCursor("invalid")).toThrow(InvalidCursorError);
+    });
+  });
+
+  describe("#mergeChat", () => {
+    const chat = mergeChat(null, {
+      id: "551101234567@s.whatsapp.net",
+      unreadCount: 2,
+      conversationTimestamp: 1_700_000_000,
+    });
+
+    it("creates chats with default flags", () => {
+      expect(chat).toEqual({
+        id: "551101234567@s.whatsapp.net",
+        name: null,
+        unreadCount: 2,
+        markedAsUnread: false,
+        archived: false,
+        pinned: false,
+        muteEndTime: null,
+        conversationTimestamp: 1_700_000_000,
+        lastMessage: null,
+      });
+    });
+
+    it("adds new unread messages of updates", () => {
+      expect(
+        mergeChat(chat, { unreadCount: 1 }, { isUpdate: true }).unreadCount,
+      ).toBe(3);
+    });
+
+    it("replaces the unread count of upserts", () => {
+      expect(mergeChat(chat, { unreadCount: 1 }).unreadCount).toBe(1);
+    });
+
+    it("marks chats as read or unread", () => {
+      const unread = mergeChat(chat, { unreadCount: -1 }, { isUpdate: true });
+      expect(unread).toMatchObject({ unreadCount: 2, markedAsUnread: true });
+      expect(
+        mergeChat(unread, { unreadCount: 0 }, { isUpdate: true }),
+      ).toMatchObject({ unreadCount: 0, markedAsUnread: false });
+    });
+
+    it("keeps the latest conversation timestamp", () => {
+      expect(
+        mergeChat(chat, { conversationTimestamp: 1_600_000_000 })
+          .conversationTimestamp,
+      ).toBe(1_700_000_000);
+    });
+
+    it("converts pinned timestamps to a flag", () => {
+      expect(mergeChat(chat, { pinned: 1_700_000_000 }).pinned).toBe(true);
+      expect(mergeChat(chat, { pinned: null }).pinned).toBe(false);
+    });
+  });
+});
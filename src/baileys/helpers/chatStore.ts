@@ -0,0 +1,101 @@
+import type { ChatUpdate } from "@whiskeysockets/baileys";
+import type { StoredChat } from "@/baileys/types";
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+  }
+}
+
+// NOTE: Timestamps are zero padded, so sort keys order by time when compared as strings.
+const SORT_KEY_TIMESTAMP_DIGITS = 15;
+
+/**
+ * @description Build a key that sorts items by timestamp, then by id for items with the same timestamp.
+ */
+export function createSortKey(timestampMs: number, id: string) {
+  return `${String(Math.max(0, Math.floor(timestampMs))).padStart(SORT_KEY_TIMESTAMP_DIGITS, "0")}:${id}`;
+}
+
+export function parseSortKey(sortKey: string) {
+  return {
+    timestampMs: Number(sortKey.slice(0, SORT_KEY_TIMESTAMP_DIGITS)),
+    id: sortKey.slice(SORT_KEY_TIMESTAMP_DIGITS + 1),
+  };
+}
+
+/**
+ * @description Cursors are the sort key of the last item of a page, opaque to clients.
+ */
+export function encodeCursor(sortKey: string) {
+  return Buffer.from(sortKey).toString("base64url");
+}
+
+/**
+ * @returns The sort key of the cursor.
+ * @throws {InvalidCursorError} If the cursor was not created by `encodeCursor`.
+ */
+export function decodeCursor(cursor: string) {
+  const sortKey = Buffer.from(cursor, "base64url").toString();
+  const { timestampMs, id } = parseSortKey(sortKey);
+  if (!/^\d+:/.test(sortKey) || Number.isNaN(timestampMs) || !id) {
+    throw new InvalidCursorError();
+  }
+  return sortKey;
+}
+
+/**
+ * @description Apply a Baileys chat upsert or update to a stored chat.
+ * In updates, a positive `unreadCount` is the number of new unread messages, `0` marks
+ * the chat as read and `-1` marks it as unread. Upserts hold the absolute count.
+ */
+export function mergeChat(
+  existing: StoredChat | null,
+  chat: ChatUpdate,
+  { isUpdate = false }: { isUpdate?: boolean } = {},
+): StoredChat {
+  const merged: StoredChat = existing
+    ? { ...existing }
+    : {
+        id: chat.id as string,
+        name: null,
+        unreadCount: 0,
+        markedAsUnread: false,
+        archived: false,
+        pinned: false,
+        muteEndTime: null,
+        conversationTimestamp: null,
+        lastMessage: null,
+      };
+
+  if (chat.name !== undefined) {
+    merged.name = chat.name ?? null;
+  }
+  if (typeof chat.unreadCount === "number") {
+    if (chat.unreadCount === -1) {
+      merged.markedAsUnread = true;
+    } else {
+      merged.unreadCount =
+        isUpdate && chat.unreadCount > 0
+          ? merged.unreadCount + chat.unreadCount
+          : chat.unreadCount;
+      merged.markedAsUnread = false;
+    }
+  }
+  if (chat.archived !== undefined && chat.archived !== null) {
+    merged.archived = chat.archived;
+  }
+  if (chat.pinned !== undefined) {
+    merged.pinned = !!chat.pinned;
+  }
+  if (chat.muteEndTime !== undefined) {
+    merged.muteEndTime = chat.muteEndTime ? Number(chat.muteEndTime) : null;
+  }
+  if (chat.conversationTimestamp) {
+    merged.conversationTimestamp = Math.max(
+      merged.conversationTimestamp ?? 0,
+      Number(chat.conversationTimestamp),
+    );
+  }
+  return merged;
+}
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import sharp from "sharp";
+import config from "@/config";
+import { generateLinkPreview } from "./generateLinkPreview";
+
+describe("generateLinkPreview", () => {
+  let server: Server<undefined>;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // NOTE: The fixture server listens on localhost.
+    config.allowPrivateUrls = true;
+    const image = await sharp({
+      create: {
+        width: 800,
+        height: 400,
+        channels: 3,
+        background: { r: 255, g: 0, b: 0 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+    server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const { pathname } = new URL(request.url);
+        switch (pathname) {
+          case "/page":
+            return new Response(
+              `<html><head>
+                <title>Fallback title</title>
+                <meta property="og:title" content="Fixture page" />
+                <meta property="og:description" content="A page used in tests" />
+                <meta property="og:image" content="${baseUrl}/image.png" />
+              </head><body></body></html>`,
+              { headers: { "content-type": "text/html; charset=utf-8" } },
+            );
+          case "/image.png":
+            return new Response(new Uint8Array(image), {
+              headers: { "content-type": "image/png" },
+            });
+          case "/slow":
+            await Bun.sleep(500);
+            return new Response("<html><title>Slow</title></html>", {
+              headers: { "content-type": "text/html" },
+            });
+          case "/huge":
+            return new Response(
+              `<html><title>Huge</title>${"a".repeat(10_000)}</html>`,
+              { headers: { "content-type": "text/html" } },
+            );
+          case "/json":
+            return Response.json({ title: "Not a page" });
+          default:
+            return new Response("Not found", { status: 404 });
+        }
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    config.allowPrivateUrls = false;
+  });
+
+  it("returns null when the text has no URL", async () => {
+    expect(await generateLinkPreview("Hello world!")).toBeNull();
+  });
+
+  it("returns title, description and a resized JPEG thumbnail", async () => {
+    const text = `Check this out: ${baseUrl}/page`;
+    const preview = await generateLinkPreview(text);
+
+    expect(preview).toMatchObject({
+      "matched-text": `${baseUrl}/page`,
+      title: "Fixture page",
+      description: "A page used in tests",
+    });
+
+    const thumbnail = await sharp(preview?.jpegThumbnail).metadata();
+    expect(thumbnail.format).toBe("jpeg");
+    expect(thumbnail.width).toBeLessThanOrEqual(192);
+    expect(thumbnail.height).toBeLessThanOrEqual(192);
+  });
+
+  it("returns null when the page takes longer than the timeout", async () => {
+    expect(
+      await generateLinkPreview(`${baseUrl}/slow`, { timeoutMs: 100 }),
+    ).toBeNull();
+  });
+
+  it("returns null when the page exceeds the size cap", async () => {
+    expect(
+      await generateLinkPreview(`${baseUrl}/huge`, { maxBytes: 1_000 }),
+    ).toBeNull();
+  });
+
+  it("returns null when the URL is not an HTML page", async () => {
+    expect(await generateLinkPreview(`${baseUrl}/json`)).toBeNull();
+  });
+
+  it("returns null when the URL resolves to a private address", async () => {
+    config.allowPrivateUrls = false;
+    try {
+      expect(await generateLinkPreview(`${baseUrl}/page`)).toBeNull();
+    } finally {
+      config.allowPrivateUrls = true;
+    }
+  });
+
+  it("returns null when the page cannot be fetched", async () => {
+    expect(await generateLinkPreview(`${baseUrl}/missing`)).toBeNull();
+  });
+});
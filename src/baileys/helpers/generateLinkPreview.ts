@@ -0,0 +1,141 @@
+import type { WAUrlInfo } from "@whiskeysockets/baileys";
+import { getPreviewFromContent } from "link-preview-js";
+import sharp from "sharp";
+import config from "@/config";
+import { errorToString } from "@/helpers/errorToString";
+import { fetchPublicUrl } from "@/helpers/fetchPublicUrl";
+import logger from "@/lib/logger";
+
+const THUMBNAIL_WIDTH_PX = 192;
+const URL_REGEX = /https?:\/\/[^\s<>"']+/i;
+
+interface LinkPreviewOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+async function fetchWithLimits(
+  url: string,
+  {
+    accept,
+    signal,
+    maxBytes,
+  }: { accept: string; signal: AbortSignal; maxBytes: number },
+) {
+  const response = await fetchPublicUrl(url, {
+    signal,
+    headers: {
+      accept,
+      "user-agent": "Mozilla/5.0 (compatible; baileys-api link preview)",
+    },
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch ${url}: status ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    throw new Error(`Response from ${url} exceeds ${maxBytes} bytes`);
+  }
+
+  // NOTE: `content-length` can be missing or wrong, so we also enforce the limit while reading the body.
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body) {
+    size += chunk.byteLength;
+    if (size > maxBytes) {
+      throw new Error(`Response from ${url} exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  return { response, body: Buffer.concat(chunks) };
+}
+
+/**
+ * @description Generate a link preview for the first URL found in a text message.
+ * Both the page and its preview image are fetched under a shared timeout and a size cap,
+ * so a slow or huge website cannot stall sending the message. Only public URLs are fetched.
+ *
+ * @param text The message text.
+ * @param options.timeoutMs Maximum time to spend generating the preview.
+ * @param options.maxBytes Maximum size of the page and of the preview image.
+ * @returns The preview in the format expected by Baileys, or `null` if it could not be generated.
+ */
+export async function generateLinkPreview(
+  text: string,
+  {
+    timeoutMs = config.linkPreview.timeoutMs,
+    maxBytes = config.linkPreview.maxBytes,
+  }: LinkPreviewOptions = {},
+): Promise<WAUrlInfo | null> {
+  const matchedText = text.match(URL_REGEX)?.[0];
+  if (!matchedText) {
+    return null;
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs);
+  try {
+    const { response, body } = await fetchWithLimits(matchedText, {
+      accept: "text/html,application/xhtml+xml",
+      signal,
+      maxBytes,
+    });
+    if (!response.headers.get("content-type")?.includes("html")) {
+      return null;
+    }
+
+    const preview = await getPreviewFromContent({
+      url: response.url || matchedText,
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      data: body.toString("utf8"),
+    });
+    if (!("title" in preview) || !preview.title) {
+      return null;
+    }
+
+    const urlInfo: WAUrlInfo = {
+      "canonical-url": preview.url,
+      "matched-text": matchedText,
+      title: preview.title,
+      description: preview.description,
+    };
+
+    const [imageUrl] = preview.images;
+    if (imageUrl) {
+      try {
+        const { response: imageResponse, body: image } = await fetchWithLimits(
+          imageUrl,
+          {
+            accept: "image/*",
+            signal,
+            maxBytes,
+          },
+        );
+        if (imageResponse.headers.get("content-type")?.startsWith("image/")) {
+          urlInfo.jpegThumbnail = await sharp(image)
+            .resize(THUMBNAIL_WIDTH_PX, THUMBNAIL_WIDTH_PX, {
+              fit: "inside",
+              withoutEnlargement: true,
+            })
+            .jpeg({ quality: 50 })
+            .toBuffer();
+        }
+      } catch (error) {
+        logger.debug(
+          "[generateLinkPreview] Failed to generate thumbnail for %s: %s",
+          imageUrl,
+          errorToString(error),
+        );
+      }
+    }
+
+    return urlInfo;
+  } catch (error) {
+    logger.warn(
+      "[generateLinkPreview] Failed to generate link preview for %s: %s",
+      matchedText,
+      errorToString(error),
+    );
+    return null;
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "bun:test";
+import { jidToPhoneNumber } from "./jidToPhoneNumber";
+
+describe("jidToPhoneNumber", () => {
+  describe("#jidToPhoneNumber", () => {
+    it("returns the phone number of the JID", () => {
+      expect(jidToPhoneNumber("551101234567@s.whatsapp.net")).toBe(
+        "+551101234567",
+      );
+    });
+
+    it("ignores the device suffix of the JID", () => {
+      expect(jidToPhoneNumber("551101234567:12@s.whatsapp.net")).toBe(
+        "+551101234567",
+      );
+    });
+
+    it("returns null when no JID is given", () => {
+      expect(jidToPhoneNumber(undefined)).toBeNull();
+      expect(jidToPhoneNumber(null)).toBeNull();
+    });
+  });
+});
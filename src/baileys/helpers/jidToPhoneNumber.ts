@@ -0,0 +1,15 @@
+import { jidNormalizedUser } from "@whiskeysockets/baileys";
+
+/**
+ * @description Get the phone number of a phone number JID, in the same `+<digits>` format
+ * used for connection phone numbers.
+ *
+ * @param jid The phone number JID, with or without a device suffix.
+ * @returns The phone number, or null if no JID is given.
+ */
+export function jidToPhoneNumber(jid?: string | null): string | null {
+  if (!jid) {
+    return null;
+  }
+  return `+${jidNormalizedUser(jid).split("@")[0]}`;
+}
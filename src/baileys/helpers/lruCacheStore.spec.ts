@@ -0,0 +1,11 @@
+import { describe, it } from "bun:test";
+
+describe("lruCacheStore", () => {
+  describe("#createLruCacheStore", () => {
+    it.todo("get and set values", () => {});
+    it.todo("delete values with del", () => {});
+    it.todo("clear all values with flushAll", () => {});
+    it.todo("evict least recently used values past max entries", () => {});
+    it.todo("expire values after ttlMs", () => {});
+  });
+});
@@ -0,0 +1,29 @@
+import type { CacheStore } from "@whiskeysockets/baileys";
+import { LRUCache } from "lru-cache";
+
+/**
+ * @description Create a Baileys `CacheStore` backed by an in-memory LRU cache.
+ *
+ * @param options.max Maximum number of entries kept in the cache.
+ * @param options.ttlMs Time to live of each entry, in milliseconds.
+ * @returns A cache store compatible with Baileys socket cache options.
+ */
+export function createLruCacheStore({
+  max,
+  ttlMs,
+}: {
+  max: number;
+  ttlMs: number;
+}): CacheStore {
+  // biome-ignore lint/suspicious/noExplicitAny: Baileys cache stores hold arbitrary values.
+  const cache = new LRUCache<string, any>({ max, ttl: ttlMs });
+
+  return {
+    get: (key) => cache.get(key),
+    set: (key, value) => {
+      cache.set(key, value);
+    },
+    del: (key) => cache.delete(key),
+    flushAll: () => cache.clear(),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "bun:test";
+import { InvalidMediaSourceError, validateMediaUrl } from "./mediaSource";
+
+describe("mediaSource", () => {
+  describe("#isAcceptedMimetype", () => {
+    it.todo("matches exact and wildcard mimetypes", () => {});
+    it.todo("ignores mimetype parameters", () => {});
+    it.todo("accepts anything with */*", () => {});
+  });
+
+  describe("#limitStreamSize", () => {
+    it.todo("errors with InvalidMediaSourceError past the size limit", () => {});
+  });
+
+  describe("#validateMediaUrl", () => {
+    it("accepts http(s) URLs", () => {
+      expect(() => validateMediaUrl("https://example.com/a.jpg")).not.toThrow();
+      expect(() => validateMediaUrl("http://example.com/a.jpg")).not.toThrow();
+    });
+
+    it("rejects invalid and non http(s) URLs", () => {
+      expect(() => validateMediaUrl("not a url")).toThrow(
+        InvalidMediaSourceError,
+      );
+      expect(() => validateMediaUrl("file:///etc/passwd")).toThrow(
+        InvalidMediaSourceError,
+      );
+    });
+  });
+
+  describe("#fetchMediaStream", () => {
+    it.todo("returns the media stream and content type", () => {});
+    it.todo("rejects non http(s) URLs", () => {});
+    it.todo("rejects URLs that resolve to private or reserved addresses", () => {});
+    it.todo("rejects unaccepted content types", () => {});
+    it.todo("rejects responses whose content-length exceeds the limit", () => {});
+    it.todo("rejects failed responses", () => {});
+  });
+
+  describe("#fileToMediaStream", () => {
+    it.todo("streams the uploaded file with its content type", () => {});
+  });
+});
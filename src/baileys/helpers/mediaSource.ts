@@ -0,0 +1,155 @@
+import { Readable, Transform } from "node:stream";
+import type { WAMediaUpload } from "@whiskeysockets/baileys";
+import config from "@/config";
+import { errorToString } from "@/helpers/errorToString";
+import { fetchPublicUrl } from "@/helpers/fetchPublicUrl";
+
+export class InvalidMediaSourceError extends Error {}
+
+export interface MediaStream {
+  stream: Readable;
+  mimetype?: string;
+}
+
+export function isMediaStream(
+  media: WAMediaUpload,
+): media is { stream: Readable } {
+  return !Buffer.isBuffer(media) && "stream" in media;
+}
+
+/**
+ * @description Check a mimetype against a list of accepted types, which may use wildcards (e.g. `image/*`).
+ */
+export function isAcceptedMimetype(
+  mimetype: string | undefined,
+  accept: string[],
+) {
+  if (accept.includes("*/*")) {
+    return true;
+  }
+  const essence = mimetype?.split(";")[0].trim().toLowerCase();
+  if (!essence) {
+    return false;
+  }
+  return accept.some((type) =>
+    type.endsWith("/*")
+      ? essence.startsWith(type.slice(0, -1))
+      : essence === type,
+  );
+}
+
+/**
+ * @description Wrap a stream so it errors as soon as more than `maxBytes` are read from it.
+ */
+export function limitStreamSize(stream: Readable, maxBytes: number): Readable {
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        callback(
+          new InvalidMediaSourceError(`Media exceeds ${maxBytes} bytes`),
+        );
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+  stream.on("error", (error) => limiter.destroy(error));
+  return stream.pipe(limiter);
+}
+
+export async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * @description Check that a media URL is a valid http(s) URL, without fetching it.
+ */
+export function validateMediaUrl(url: string) {
+  let protocol: string;
+  try {
+    ({ protocol } = new URL(url));
+  } catch {
+    throw new InvalidMediaSourceError(`Invalid media URL: ${url}`);
+  }
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new InvalidMediaSourceError(
+      `Unsupported media URL protocol: ${protocol}`,
+    );
+  }
+}
+
+/**
+ * @description Fetch media from a URL as a stream, so it can be handed to Baileys without
+ * buffering it in memory. Only public http(s) URLs are fetched (see `fetchPublicUrl`). The
+ * content type is checked before the body is read, and the size is checked both against
+ * `content-length` and while streaming.
+ *
+ * @param url The http(s) URL of the media.
+ * @param options.accept Accepted mimetypes, e.g. `["image/*"]`.
+ * @param options.maxBytes Maximum size of the media.
+ * @param options.timeoutMs Maximum time to download the media.
+ * @returns The media stream and the mimetype reported by the server.
+ */
+export async function fetchMediaStream(
+  url: string,
+  {
+    accept,
+    maxBytes = config.media.maxSourceBytes,
+    timeoutMs = config.media.fetchTimeoutMs,
+  }: { accept: string[]; maxBytes?: number; timeoutMs?: number },
+): Promise<MediaStream> {
+  validateMediaUrl(url);
+
+  let response: Response;
+  try {
+    response = await fetchPublicUrl(url, {
+      signal: AbortSignal.timeout(timeoutMs),
+      headers: { accept: accept.join(",") },
+    });
+  } catch (error) {
+    throw new InvalidMediaSourceError(
+      `Failed to fetch media from ${url}: ${errorToString(error)}`,
+    );
+  }
+  if (!response.ok || !response.body) {
+    throw new InvalidMediaSourceError(
+      `Failed to fetch media from ${url}: status ${response.status}`,
+    );
+  }
+
+  const mimetype = response.headers.get("content-type") ?? undefined;
+  if (!isAcceptedMimetype(mimetype, accept)) {
+    await response.body.cancel();
+    throw new InvalidMediaSourceError(
+      `Unsupported media content type ${mimetype}, expected ${accept.join(", ")}`,
+    );
+  }
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body.cancel();
+    throw new InvalidMediaSourceError(`Media exceeds ${maxBytes} bytes`);
+  }
+
+  return {
+    stream: limitStreamSize(Readable.from(response.body), maxBytes),
+    mimetype,
+  };
+}
+
+/**
+ * @description Stream a file received in a multipart upload.
+ */
+export function fileToMediaStream(file: File): MediaStream {
+  return {
+    stream: limitStreamSize(
+      Readable.from(file.stream()),
+      config.media.maxSourceBytes,
+    ),
+    mimetype: file.type || undefined,
+  };
+}
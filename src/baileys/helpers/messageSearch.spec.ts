@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import { getMessageText, getMessageType, tokenizeText } from "./messageSearch";
+
+describe("messageSearch", () => {
+  describe("#tokenizeText", () => {
+    it("splits text into unique lowercase tokens", () => {
+      expect(tokenizeText("Order A-123, order a123!")).toEqual([
+        "order",
+        "123",
+        "a123",
+      ]);
+    });
+
+    it("removes diacritics", () => {
+      expect(tokenizeText("Pedido número Ação")).toEqual([
+        "pedido",
+        "numero",
+        "acao",
+      ]);
+    });
+
+    it("ignores single character tokens", () => {
+      expect(tokenizeText("a b cd")).toEqual(["cd"]);
+    });
+  });
+
+  describe("#getMessageText", () => {
+    it("returns the text of text messages", () => {
+      expect(getMessageText({ key: {}, message: { conversation: "Hi" } })).toBe(
+        "Hi",
+      );
+      expect(
+        getMessageText({
+          key: {},
+          message: { extendedTextMessage: { text: "Hello" } },
+        }),
+      ).toBe("Hello");
+    });
+
+    it("returns media captions", () => {
+      expect(
+        getMessageText({
+          key: {},
+          message: { imageMessage: { caption: "Receipt #42" } },
+        }),
+      ).toBe("Receipt #42");
+    });
+
+    it("returns the text of edited messages", () => {
+      expect(
+        getMessageText({
+          key: {},
+          message: {
+            editedMessage: { message: { conversation: "Edited" } },
+          },
+        }),
+      ).toBe("Edited");
+    });
+
+    it("returns an empty string for messages without text", () => {
+      expect(getMessageText({ key: {}, message: null })).toBe("");
+    });
+  });
+
+  describe("#getMessageType", () => {
+    it("returns text for text messages", () => {
+      expect(getMessageType({ key: {}, message: { conversation: "Hi" } })).toBe(
+        "text",
+      );
+    });
+
+    it("returns the media type of media messages", () => {
+      expect(getMessageType({ key: {}, message: { imageMessage: {} } })).toBe(
+        "image",
+      );
+      expect(
+        getMessageType({ key: {}, message: { pollCreationMessageV3: {} } }),
+      ).toBe("pollCreation");
+    });
+
+    it("returns null for messages without content", () => {
+      expect(getMessageType({ key: {}, message: null })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  getContentType,
+  normalizeMessageContent,
+  type proto,
+} from "@whiskeysockets/baileys";
+
+// NOTE: Shorter tokens match too many messages to be useful.
+const MIN_TOKEN_LENGTH = 2;
+
+/**
+ * @description Split a text into unique lowercase search tokens, without diacritics, so
+ * e.g. "Pedido Nº A-123" matches "pedido a 123".
+ */
+export function tokenizeText(text: string): string[] {
+  const tokens = text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH);
+  return [...new Set(tokens)];
+}
+
+/**
+ * @description Extract the searchable text of a message: its text, media caption, document
+ * name or poll question.
+ */
+export function getMessageText(message: proto.IWebMessageInfo): string {
+  const content = normalizeMessageContent(message.message);
+  if (!content) {
+    return "";
+  }
+  return [
+    content.conversation,
+    content.extendedTextMessage?.text,
+    content.imageMessage?.caption,
+    content.videoMessage?.caption,
+    content.documentMessage?.caption,
+    content.documentMessage?.fileName,
+    content.pollCreationMessage?.name,
+    content.pollCreationMessageV2?.name,
+    content.pollCreationMessageV3?.name,
+  ]
+    .filter((text): text is string => !!text)
+    .join("\n");
+}
+
+/**
+ * @description Get the type of a message, e.g. `text`, `image` or `document`.
+ */
+export function getMessageType(message: proto.IWebMessageInfo): string | null {
+  const contentType = getContentType(
+    normalizeMessageContent(message.message) ?? undefined,
+  );
+  if (!contentType) {
+    return null;
+  }
+  if (contentType === "conversation" || contentType === "extendedTextMessage") {
+    return "text";
+  }
+  return contentType.replace(/Message(V\d+)?$/, "");
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "bun:test";
+
+describe("pollVotes", () => {
+  describe("#isPollCreationMessage", () => {
+    it.todo("returns true for poll creation messages (v1, v2 and v3)", () => {});
+    it.todo("returns false for other messages", () => {});
+  });
+
+  describe("#decryptPollUpdate", () => {
+    it.todo("returns the poll update as is when the vote is already decrypted", () => {});
+    it.todo("decrypts the vote using the poll message secret", () => {});
+    it.todo("tries both PN and LID jids for creator and voter", () => {});
+    it.todo("returns null when the poll message secret is missing", () => {});
+    it.todo("returns null when the vote cannot be decrypted", () => {});
+  });
+
+  describe("#aggregatePollVotes", () => {
+    it.todo("returns every poll option with its voters and count", () => {});
+    it.todo("ignores votes without selected options", () => {});
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  decryptPollVote,
+  getAggregateVotesInPollMessage,
+  getKeyAuthor,
+  jidNormalizedUser,
+  normalizeMessageContent,
+  type proto,
+  type WAMessageKey,
+} from "@whiskeysockets/baileys";
+
+export interface PollVotesTally {
+  name: string;
+  voters: string[];
+  count: number;
+}
+
+export function isPollCreationMessage(message?: proto.IMessage | null) {
+  return !!(
+    message?.pollCreationMessage ||
+    message?.pollCreationMessageV2 ||
+    message?.pollCreationMessageV3
+  );
+}
+
+function keyAuthorCandidates(key: WAMessageKey, meIds: string[]) {
+  if (key.fromMe) {
+    return meIds;
+  }
+  // NOTE: Depending on the addressing mode, votes may be encrypted with either the LID or PN jid.
+  return [
+    getKeyAuthor(key),
+    key.participant || key.remoteJid,
+    key.participantAlt || key.remoteJidAlt,
+  ]
+    .filter((jid): jid is string => !!jid)
+    .map((jid) => jidNormalizedUser(jid));
+}
+
+/**
+ * @description Decrypt an encrypted poll vote using the poll creation message secret.
+ *
+ * @param pollUpdate The poll update, with `vote` still holding the encrypted payload.
+ * @param options.pollMessage The stored poll creation message.
+ * @param options.meIds Jids (PN and LID) of the connected account.
+ * @returns The poll update with a decrypted vote, or `null` if it could not be decrypted.
+ */
+export function decryptPollUpdate(
+  pollUpdate: proto.IPollUpdate,
+  {
+    pollMessage,
+    meIds,
+  }: { pollMessage: proto.IWebMessageInfo; meIds: string[] },
+): proto.IPollUpdate | null {
+  const vote = pollUpdate.vote as proto.Message.IPollEncValue | null;
+  if (!vote?.encPayload || !vote.encIv) {
+    // NOTE: Already decrypted.
+    return pollUpdate;
+  }
+
+  const pollEncKey =
+    normalizeMessageContent(pollMessage.message)?.messageContextInfo
+      ?.messageSecret ?? pollMessage.message?.messageContextInfo?.messageSecret;
+  const pollMsgId = pollMessage.key?.id;
+  if (!pollEncKey || !pollMsgId || !pollUpdate.pollUpdateMessageKey) {
+    return null;
+  }
+
+  const normalizedMeIds = meIds.map((jid) => jidNormalizedUser(jid));
+  for (const pollCreatorJid of keyAuthorCandidates(
+    pollMessage.key ?? {},
+    normalizedMeIds,
+  )) {
+    for (const voterJid of keyAuthorCandidates(
+      pollUpdate.pollUpdateMessageKey,
+      normalizedMeIds,
+    )) {
+      try {
+        return {
+          ...pollUpdate,
+          vote: decryptPollVote(vote, {
+            pollCreatorJid,
+            pollMsgId,
+            pollEncKey,
+            voterJid,
+          }),
+        };
+      } catch {
+        // NOTE: Wrong jid combination, try the next one.
+      }
+    }
+  }
+
+  return null;
+}
+
+export function aggregatePollVotes(
+  pollMessage: proto.IWebMessageInfo,
+  pollUpdates: proto.IPollUpdate[],
+  meId?: string,
+): PollVotesTally[] {
+  return getAggregateVotesInPollMessage(
+    { message: normalizeMessageContent(pollMessage.message), pollUpdates },
+    meId,
+  ).map(({ name, voters }) => ({ name, voters, count: voters.length }));
+}
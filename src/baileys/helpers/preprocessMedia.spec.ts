@@ -0,0 +1,30 @@
+import { describe, it } from "bun:test";
+
+describe("preprocessMedia", () => {
+  describe("#preprocessImage", () => {
+    describe("when the image exceeds the configured limits", () => {
+      it.todo("downscales and re-encodes the image as JPEG", () => {});
+      it.todo("does not compress when compress is false", () => {});
+    });
+
+    describe("when the image is within the configured limits", () => {
+      it.todo("returns the original image", () => {});
+    });
+
+    it.todo("generates a base64 jpegThumbnail", () => {});
+    it.todo("does not generate a thumbnail when thumbnail is false", () => {});
+  });
+
+  describe("#preprocessVideo", () => {
+    it.todo("re-encodes the video to H.264/AAC MP4 with faststart", () => {});
+    it.todo("does not transcode when transcode is false", () => {});
+    it.todo("generates a jpegThumbnail and dimensions from the first frame", () => {});
+    it.todo("streams the processed video from a temporary file", () => {});
+    it.todo("deletes the streamed temporary file once the stream is closed", () => {});
+    it.todo("deletes other temporary files", () => {});
+
+    describe("when an error occurs during processing", () => {
+      it.todo("throws an error", () => {});
+    });
+  });
+});
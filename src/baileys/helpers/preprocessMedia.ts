@@ -0,0 +1,236 @@
+import { randomBytes } from "node:crypto";
+import { createReadStream, createWriteStream, promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import sharp from "sharp";
+import ffmpeg from "@/bindings/ffmpeg";
+import config from "@/config";
+import { errorToString } from "@/helpers/errorToString";
+import logger from "@/lib/logger";
+
+// NOTE: Same thumbnail width used by Baileys.
+const THUMBNAIL_WIDTH_PX = 32;
+
+export interface MediaPreprocessingOptions {
+  /** Downscale and re-encode images past the configured size limits. */
+  compress?: boolean;
+  /** Re-encode videos to H.264/AAC MP4 with faststart. */
+  transcode?: boolean;
+  /** Generate the `jpegThumbnail` shown while the media is downloading. */
+  thumbnail?: boolean;
+}
+
+interface PreprocessedMedia {
+  mimetype?: string;
+  width?: number;
+  height?: number;
+  jpegThumbnail?: string;
+}
+
+function tmpFilename(prefix: string, extension: string) {
+  return join(
+    tmpdir(),
+    `${prefix}-${randomBytes(6).toString("hex")}.${extension}`,
+  );
+}
+
+async function unlinkTmpFiles(...filenames: string[]) {
+  for (const filename of filenames) {
+    try {
+      await fs.unlink(filename);
+    } catch (unlinkError) {
+      if ((unlinkError as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error(
+          "Failed to delete temporary media file: %s",
+          errorToString(unlinkError),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * @description Stream a temporary file, deleting it once the stream is closed, i.e. after it
+ * was fully read or destroyed.
+ */
+function createTmpFileStream(filename: string): Readable {
+  return createReadStream(filename).on("close", () => unlinkTmpFiles(filename));
+}
+
+function runFfmpeg(command: ReturnType<typeof ffmpeg>, output: string) {
+  return new Promise<void>((ffResolve, ffReject) =>
+    command
+      .on("end", () => ffResolve())
+      .on("error", (err) => ffReject(err))
+      .save(output),
+  );
+}
+
+async function generateJpegThumbnail(image: Buffer | string) {
+  const thumbnail = await sharp(image)
+    .rotate()
+    .resize(THUMBNAIL_WIDTH_PX)
+    .jpeg({ quality: 50 })
+    .toBuffer();
+  // NOTE: Baileys expects thumbnails as base64 strings.
+  return thumbnail.toString("base64");
+}
+
+/**
+ * @description Downscale and re-encode an image as JPEG when it exceeds the configured
+ * dimension or size limits, and generate its thumbnail.
+ *
+ * @param image The image data.
+ * @param options Per request overrides of the global media preprocessing config.
+ * @returns The processed image and the fields to merge into the image message content.
+ */
+export async function preprocessImage(
+  image: Buffer,
+  {
+    compress = config.media.compressImages,
+    thumbnail = config.media.generateThumbnails,
+  }: MediaPreprocessingOptions = {},
+): Promise<PreprocessedMedia & { image: Buffer }> {
+  const { imageMaxDimensionPx, imageMaxBytes, imageJpegQuality } = config.media;
+  const metadata = await sharp(image).metadata();
+  const result: PreprocessedMedia & { image: Buffer } = {
+    image,
+    width: metadata.autoOrient.width,
+    height: metadata.autoOrient.height,
+  };
+
+  if (
+    compress &&
+    (image.length > imageMaxBytes ||
+      metadata.width > imageMaxDimensionPx ||
+      metadata.height > imageMaxDimensionPx)
+  ) {
+    const { data, info } = await sharp(image)
+      .rotate()
+      .resize(imageMaxDimensionPx, imageMaxDimensionPx, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      // NOTE: JPEG has no alpha channel, so transparent areas are flattened to white.
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: imageJpegQuality, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+    Object.assign(result, {
+      image: data,
+      mimetype: "image/jpeg",
+      width: info.width,
+      height: info.height,
+    });
+  }
+
+  if (thumbnail) {
+    result.jpegThumbnail = await generateJpegThumbnail(result.image);
+  }
+
+  return result;
+}
+
+function transcodeVideo(input: string, output: string) {
+  return runFfmpeg(
+    ffmpeg(input)
+      .videoCodec("libx264")
+      .audioCodec("aac")
+      .audioBitrate("128k")
+      .format("mp4")
+      .outputOptions([
+        "-preset veryfast",
+        "-crf 23",
+        "-profile:v main",
+        "-pix_fmt yuv420p",
+        // NOTE: H.264 with yuv420p requires even dimensions.
+        "-vf scale=trunc(iw/2)*2:trunc(ih/2)*2",
+        "-movflags +faststart",
+      ]),
+    output,
+  );
+}
+
+async function generateVideoThumbnail(input: string, frameFilename: string) {
+  await runFfmpeg(
+    ffmpeg(input).outputOptions(["-frames:v 1", "-q:v 2"]),
+    frameFilename,
+  );
+  const { width, height } = await sharp(frameFilename).metadata();
+  return {
+    width,
+    height,
+    jpegThumbnail: await generateJpegThumbnail(frameFilename),
+  };
+}
+
+/**
+ * @description Re-encode a video to H.264/AAC MP4 with faststart, so it plays on every
+ * phone and can start playing before it is fully downloaded, and generate its thumbnail.
+ *
+ * @param video The video data, or a stream that is copied to a temporary file instead of being buffered.
+ * @param options Per request overrides of the global media preprocessing config.
+ * @returns The processed video and the fields to merge into the video message content. Processed
+ * videos are streamed from a temporary file, deleted once the stream is closed, so callers must
+ * consume or destroy the stream.
+ */
+export async function preprocessVideo(
+  video: Buffer | Readable,
+  {
+    transcode = config.media.transcodeVideos,
+    thumbnail = config.media.generateThumbnails,
+  }: MediaPreprocessingOptions = {},
+): Promise<PreprocessedMedia & { video: Buffer | Readable }> {
+  if (!transcode && !thumbnail) {
+    return { video };
+  }
+
+  // NOTE: MP4 inputs may have their index at the end of the file, so ffmpeg needs a seekable input.
+  const inputFilename = tmpFilename("video-input", "bin");
+  const outputFilename = tmpFilename("video-output", "mp4");
+  const frameFilename = tmpFilename("video-frame", "jpg");
+  // NOTE: Temporary file handed over to the returned stream, which deletes it.
+  let streamedFilename: string | null = null;
+  try {
+    if (Buffer.isBuffer(video)) {
+      await fs.writeFile(inputFilename, video);
+    } else {
+      await pipeline(video, createWriteStream(inputFilename));
+    }
+
+    try {
+      if (transcode) {
+        await transcodeVideo(inputFilename, outputFilename);
+      }
+      const videoFilename = transcode ? outputFilename : inputFilename;
+      const videoContent = {
+        ...(transcode && { mimetype: "video/mp4" }),
+        ...(thumbnail &&
+          (await generateVideoThumbnail(videoFilename, frameFilename))),
+      };
+      if (!transcode && Buffer.isBuffer(video)) {
+        return { video, ...videoContent };
+      }
+      // NOTE: Streams are consumed while being copied, so the video is streamed back from the temporary file.
+      streamedFilename = videoFilename;
+      return { video: createTmpFileStream(videoFilename), ...videoContent };
+    } catch (error) {
+      if (Buffer.isBuffer(video)) {
+        throw error;
+      }
+      logger.error(
+        "Failed to preprocess video, sending it as is: %s",
+        errorToString(error),
+      );
+      streamedFilename = inputFilename;
+      return { video: createTmpFileStream(inputFilename) };
+    }
+  } finally {
+    await unlinkTmpFiles(
+      ...[inputFilename, outputFilename, frameFilename].filter(
+        (filename) => filename !== streamedFilename,
+      ),
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import sharp from "sharp";
+import {
+  PROFILE_PICTURE_SIZE_PX,
+  preprocessProfilePicture,
+  UnsupportedProfilePictureError,
+} from "./preprocessProfilePicture";
+
+const createImage = (width: number, height: number) =>
+  sharp({
+    create: {
+      width,
+      height,
+      channels: 4,
+      background: { r: 255, g: 0, b: 0, alpha: 0.5 },
+    },
+  })
+    .png()
+    .toBuffer();
+
+describe("preprocessProfilePicture", () => {
+  describe("#preprocessProfilePicture", () => {
+    it("crops a landscape image to a square JPEG", async () => {
+      const picture = await preprocessProfilePicture(
+        await createImage(1200, 300),
+      );
+
+      const { format, width, height } = await sharp(picture).metadata();
+      expect(format).toBe("jpeg");
+      expect(width).toBe(PROFILE_PICTURE_SIZE_PX);
+      expect(height).toBe(PROFILE_PICTURE_SIZE_PX);
+    });
+
+    it("upscales small images", async () => {
+      const picture = await preprocessProfilePicture(await createImage(50, 80));
+
+      const { width, height } = await sharp(picture).metadata();
+      expect(width).toBe(PROFILE_PICTURE_SIZE_PX);
+      expect(height).toBe(PROFILE_PICTURE_SIZE_PX);
+    });
+
+    it("throws an UnsupportedProfilePictureError for invalid images", async () => {
+      await expect(
+        preprocessProfilePicture(Buffer.from("not an image")),
+      ).rejects.toBeInstanceOf(UnsupportedProfilePictureError);
+    });
+  });
+});
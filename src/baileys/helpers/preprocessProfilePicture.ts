@@ -0,0 +1,36 @@
+import sharp from "sharp";
+
+// NOTE: Same size Baileys resizes profile pictures to.
+export const PROFILE_PICTURE_SIZE_PX = 640;
+
+export class UnsupportedProfilePictureError extends Error {}
+
+/**
+ * @description Crop an image to a centered square and re-encode it as a 640x640 JPEG,
+ * so it isn't stretched when set as the profile picture.
+ *
+ * @param image The image data.
+ * @returns The JPEG profile picture.
+ */
+export async function preprocessProfilePicture(image: Buffer): Promise<Buffer> {
+  try {
+    await sharp(image).metadata();
+  } catch {
+    throw new UnsupportedProfilePictureError(
+      "Profile picture is not a valid image",
+    );
+  }
+
+  return (
+    sharp(image)
+      .rotate()
+      .resize(PROFILE_PICTURE_SIZE_PX, PROFILE_PICTURE_SIZE_PX, {
+        fit: "cover",
+        position: "centre",
+      })
+      // NOTE: JPEG has no alpha channel, so transparent areas are flattened to white.
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+  );
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "bun:test";
+import sharp from "sharp";
+import {
+  preprocessSticker,
+  UnsupportedStickerError,
+} from "./preprocessSticker";
+
+const createImage = (
+  width: number,
+  height: number,
+  format: "png" | "jpeg" | "tiff" = "png",
+) =>
+  sharp({
+    create: {
+      width,
+      height,
+      channels: 4,
+      background: { r: 255, g: 0, b: 0, alpha: 1 },
+    },
+  })
+    .toFormat(format)
+    .toBuffer();
+
+// NOTE: Frames are given different colors, as GIF encoders merge identical frames.
+const createAnimatedGif = async (width: number, height: number) => {
+  const frames = await sharp({
+    create: {
+      width,
+      height: height * 2,
+      channels: 4,
+      background: { r: 255, g: 0, b: 0, alpha: 1 },
+    },
+  })
+    .composite([
+      {
+        input: {
+          create: {
+            width,
+            height,
+            channels: 4,
+            background: { r: 0, g: 0, b: 255, alpha: 1 },
+          },
+        },
+        top: height,
+        left: 0,
+      },
+    ])
+    .raw()
+    .toBuffer();
+  return sharp(frames, {
+    raw: { width, height: height * 2, channels: 4, pageHeight: height },
+  })
+    .gif()
+    .toBuffer();
+};
+
+const findWebpChunk = (webp: Buffer, fourCC: string) => {
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const size = webp.readUInt32LE(offset + 4);
+    if (webp.toString("ascii", offset, offset + 4) === fourCC) {
+      return webp.subarray(offset + 8, offset + 8 + size);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+describe("preprocessSticker", () => {
+  describe("#preprocessSticker", () => {
+    describe("when the image is static", () => {
+      it("returns a 512x512 static WebP sticker", async () => {
+        const { sticker, isAnimated } = await preprocessSticker(
+          await createImage(300, 300, "jpeg"),
+        );
+
+        const { format, width, height, pages } =
+          await sharp(sticker).metadata();
+        expect(isAnimated).toBe(false);
+        expect(format).toBe("webp");
+        expect(width).toBe(512);
+        expect(height).toBe(512);
+        expect(pages ?? 1).toBe(1);
+      });
+
+      it("keeps the aspect ratio with a transparent padding", async () => {
+        const { sticker } = await preprocessSticker(
+          await createImage(1024, 256),
+        );
+
+        const { data, info } = await sharp(sticker)
+          .ensureAlpha()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        const alphaAt = (x: number, y: number) =>
+          data[(y * info.width + x) * info.channels + 3];
+        expect(alphaAt(256, 0)).toBe(0);
+        expect(alphaAt(256, 256)).toBe(255);
+      });
+    });
+
+    describe("when the image is an animated GIF or WebP", () => {
+      it("returns a 512x512 animated WebP sticker", async () => {
+        const { sticker, isAnimated } = await preprocessSticker(
+          await createAnimatedGif(100, 100),
+        );
+
+        const { format, width, pageHeight, pages } = await sharp(sticker, {
+          animated: true,
+        }).metadata();
+        expect(isAnimated).toBe(true);
+        expect(format).toBe("webp");
+        expect(width).toBe(512);
+        expect(pageHeight).toBe(512);
+        expect(pages).toBe(2);
+      });
+    });
+
+    describe("when the image format is not supported", () => {
+      it("throws an UnsupportedStickerError", async () => {
+        await expect(
+          preprocessSticker(await createImage(100, 100, "tiff")),
+        ).rejects.toBeInstanceOf(UnsupportedStickerError);
+        await expect(
+          preprocessSticker(Buffer.from("not an image")),
+        ).rejects.toBeInstanceOf(UnsupportedStickerError);
+      });
+    });
+
+    it("embeds the sticker pack name and author as EXIF metadata", async () => {
+      const { sticker } = await preprocessSticker(await createImage(100, 100), {
+        packName: "My stickers",
+        author: "John Doe",
+      });
+
+      const vp8x = findWebpChunk(sticker, "VP8X");
+      const exif = findWebpChunk(sticker, "EXIF");
+      expect(vp8x).not.toBeNull();
+      expect((vp8x?.[0] ?? 0) & 0x08).toBe(0x08);
+      expect(exif?.subarray(0, 4)).toEqual(Buffer.from([0x49, 0x49, 0x2a, 0]));
+
+      const json = JSON.parse(exif?.subarray(22).toString("utf8") ?? "{}");
+      expect(json["sticker-pack-name"]).toBe("My stickers");
+      expect(json["sticker-pack-publisher"]).toBe("John Doe");
+      expect(json["sticker-pack-id"]).toBeString();
+    });
+
+    it("returns a WebP file sharp can read back", async () => {
+      const { sticker } = await preprocessSticker(await createImage(100, 100));
+
+      expect(sticker.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(sticker.readUInt32LE(4)).toBe(sticker.length - 8);
+      expect((await sharp(sticker).metadata()).width).toBe(512);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { randomUUID } from "node:crypto";
+import sharp from "sharp";
+
+const STICKER_SIZE_PX = 512;
+const SUPPORTED_FORMATS = ["png", "jpeg", "gif", "webp"];
+// NOTE: WebP extended format (VP8X) flags.
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_ALPHA_FLAG = 0x10;
+
+export class UnsupportedStickerError extends Error {}
+
+export interface StickerMetadata {
+  packName?: string;
+  author?: string;
+}
+
+interface WebpChunk {
+  fourCC: string;
+  data: Buffer;
+}
+
+function readWebpChunks(webp: Buffer): WebpChunk[] {
+  const chunks: WebpChunk[] = [];
+  // NOTE: Skip the `RIFF<size>WEBP` header.
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const fourCC = webp.toString("ascii", offset, offset + 4);
+    const size = webp.readUInt32LE(offset + 4);
+    chunks.push({ fourCC, data: webp.subarray(offset + 8, offset + 8 + size) });
+    // NOTE: Chunks are padded to an even size.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeWebpChunks(chunks: WebpChunk[]): Buffer {
+  const body = Buffer.concat(
+    chunks.flatMap(({ fourCC, data }) => {
+      const header = Buffer.alloc(8);
+      header.write(fourCC, 0, "ascii");
+      header.writeUInt32LE(data.length, 4);
+      return data.length % 2 ? [header, data, Buffer.alloc(1)] : [header, data];
+    }),
+  );
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * @description Build the EXIF payload WhatsApp reads sticker pack information from:
+ * a little-endian TIFF header with a single `0x5741` tag holding a JSON document.
+ */
+function buildStickerExif({ packName, author }: StickerMetadata): Buffer {
+  const json = Buffer.from(
+    JSON.stringify({
+      "sticker-pack-id": randomUUID(),
+      "sticker-pack-name": packName ?? "",
+      "sticker-pack-publisher": author ?? "",
+      emojis: [],
+    }),
+    "utf8",
+  );
+  const tiff = Buffer.from([
+    0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x01, 0x00, 0x41, 0x57,
+    0x07, 0x00, 0x00, 0x00, 0x00, 0x00, 0x16, 0x00, 0x00, 0x00,
+  ]);
+  tiff.writeUInt32LE(json.length, 14);
+  return Buffer.concat([tiff, json]);
+}
+
+function addExifToWebp(
+  webp: Buffer,
+  exif: Buffer,
+  { width, height }: { width: number; height: number },
+): Buffer {
+  const chunks = readWebpChunks(webp).filter(({ fourCC }) => fourCC !== "EXIF");
+
+  if (chunks[0]?.fourCC === "VP8X") {
+    const vp8x = Buffer.from(chunks[0].data);
+    vp8x[0] |= VP8X_EXIF_FLAG;
+    chunks[0] = { fourCC: "VP8X", data: vp8x };
+  } else {
+    // NOTE: Simple (lossy or lossless) WebP files can't hold metadata, so we convert them to the extended format.
+    const vp8x = Buffer.alloc(10);
+    vp8x[0] =
+      VP8X_EXIF_FLAG | (chunks[0]?.fourCC === "VP8L" ? VP8X_ALPHA_FLAG : 0);
+    vp8x.writeUIntLE(width - 1, 4, 3);
+    vp8x.writeUIntLE(height - 1, 7, 3);
+    chunks.unshift({ fourCC: "VP8X", data: vp8x });
+  }
+
+  chunks.push({ fourCC: "EXIF", data: exif });
+  return writeWebpChunks(chunks);
+}
+
+/**
+ * @description Convert an image to a WhatsApp sticker: a 512x512 WebP with transparent padding
+ * and the sticker pack name and author embedded as EXIF metadata.
+ * Animated GIF and WebP inputs are kept animated.
+ *
+ * @param image PNG, JPEG, GIF or WebP image data.
+ * @param metadata Sticker pack name and author.
+ * @returns The WebP sticker and whether it is animated.
+ */
+export async function preprocessSticker(
+  image: Buffer,
+  metadata: StickerMetadata = {},
+): Promise<{ sticker: Buffer; isAnimated: boolean }> {
+  let format: string | undefined;
+  let pages: number | undefined;
+  try {
+    ({ format, pages } = await sharp(image).metadata());
+  } catch {
+    throw new UnsupportedStickerError("Sticker is not a valid image");
+  }
+  if (!format || !SUPPORTED_FORMATS.includes(format)) {
+    throw new UnsupportedStickerError(
+      `Unsupported sticker format: ${format}. Supported formats are ${SUPPORTED_FORMATS.join(", ")}`,
+    );
+  }
+
+  const isAnimated = (pages ?? 1) > 1;
+  const { data, info } = await sharp(image, { animated: isAnimated })
+    .resize(STICKER_SIZE_PX, STICKER_SIZE_PX, {
+      fit: "contain",
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    // NOTE: WhatsApp rejects stickers over 100 KB (static) or 500 KB (animated).
+    .webp({ quality: isAnimated ? 50 : 80, effort: 4, loop: 0 })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    sticker: addExifToWebp(data, buildStickerExif(metadata), {
+      width: info.width,
+      // NOTE: For animated images, `info.height` is the height of all frames stacked.
+      height: info.pageHeight ?? info.height,
+    }),
+    isAnimated,
+  };
+}
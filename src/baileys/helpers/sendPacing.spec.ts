@@ -0,0 +1,13 @@
+import { describe, it } from "bun:test";
+
+describe("sendPacing", () => {
+  describe("#waitForSendSlot", () => {
+    it.todo("resolve immediately for the first send of a connection", () => {});
+    it.todo("space the sends of a connection by the configured rate", () => {});
+    it.todo("not delay the sends of other connections", () => {});
+  });
+
+  describe("#delaySendSlots", () => {
+    it.todo("wait for the delay before the next send slot", () => {});
+  });
+});
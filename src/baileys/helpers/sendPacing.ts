@@ -0,0 +1,29 @@
+import config from "@/config";
+import { asyncSleep } from "@/helpers/asyncSleep";
+
+// NOTE: Shared by the message queue workers and bulk message jobs, so their sends together stay under the configured rate.
+const nextSendAt = new Map<string, number>();
+
+/**
+ * @description Reserve the next send slot of a connection and wait for it. Slots are
+ * spaced by the configured rate plus a random jitter.
+ */
+export async function waitForSendSlot(id: string) {
+  const { messagesPerMinute, jitterMs } = config.messageQueue;
+  const now = Date.now();
+  const sendAt = Math.max(now, nextSendAt.get(id) ?? 0);
+  nextSendAt.set(
+    id,
+    sendAt + 60_000 / messagesPerMinute + Math.floor(Math.random() * jitterMs),
+  );
+  if (sendAt > now) {
+    await asyncSleep(sendAt - now);
+  }
+}
+
+/**
+ * @description Hold back the send slots of a connection, e.g. while it is not connected.
+ */
+export function delaySendSlots(id: string, delayMs: number) {
+  nextSendAt.set(id, Date.now() + delayMs);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { proto } from "@whiskeysockets/baileys";
+import { applyTemplateVariables, renderTemplate } from "./templateVariables";
+
+describe("templateVariables", () => {
+  describe("#renderTemplate", () => {
+    it("replaces placeholders with their value", () => {
+      expect(
+        renderTemplate("Hi {{name}}, your code is {{ code }}", {
+          name: "Ana",
+          code: "42",
+        }),
+      ).toBe("Hi Ana, your code is 42");
+    });
+
+    it("keeps placeholders without a value", () => {
+      expect(renderTemplate("Hi {{name}}", {})).toBe("Hi {{name}}");
+    });
+  });
+
+  describe("#applyTemplateVariables", () => {
+    it("renders the caption without changing the original message", () => {
+      const message = proto.Message.fromObject({
+        imageMessage: {
+          caption: "Hi {{name}}",
+          mediaKey: Buffer.from("key"),
+        },
+      });
+
+      const rendered = applyTemplateVariables(message, { name: "Ana" });
+
+      expect(rendered.imageMessage?.caption).toBe("Hi Ana");
+      expect(Buffer.from(rendered.imageMessage?.mediaKey ?? [])).toEqual(
+        Buffer.from("key"),
+      );
+      expect(message.imageMessage?.caption).toBe("Hi {{name}}");
+    });
+
+    it("renders text messages", () => {
+      expect(
+        applyTemplateVariables(
+          proto.Message.fromObject({ extendedTextMessage: { text: "{{a}}" } }),
+          { a: "b" },
+        ).extendedTextMessage?.text,
+      ).toBe("b");
+    });
+  });
+});
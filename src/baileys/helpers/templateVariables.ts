@@ -0,0 +1,55 @@
+import { proto } from "@whiskeysockets/baileys";
+
+const TEMPLATE_VARIABLE_REGEX = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * @description Replace `{{name}}` placeholders with their value. Placeholders without a value are kept as is.
+ */
+export function renderTemplate(
+  text: string,
+  variables: Record<string, string>,
+): string {
+  const values = new Map(Object.entries(variables));
+  return text.replace(
+    TEMPLATE_VARIABLE_REGEX,
+    (placeholder, name: string) => values.get(name) ?? placeholder,
+  );
+}
+
+/**
+ * @description Render the text and captions of a generated message with the given variables.
+ * The message is copied, so its uploaded media can be reused for every recipient.
+ *
+ * @param message The message content, as generated by Baileys.
+ * @param variables The values of the template variables.
+ * @returns A copy of the message with its placeholders replaced.
+ */
+export function applyTemplateVariables(
+  message: proto.IMessage,
+  variables: Record<string, string>,
+): proto.IMessage {
+  const copy = proto.Message.decode(proto.Message.encode(message).finish());
+  if (Object.keys(variables).length === 0) {
+    return copy;
+  }
+
+  if (copy.conversation) {
+    copy.conversation = renderTemplate(copy.conversation, variables);
+  }
+  if (copy.extendedTextMessage?.text) {
+    copy.extendedTextMessage.text = renderTemplate(
+      copy.extendedTextMessage.text,
+      variables,
+    );
+  }
+  for (const media of [
+    copy.imageMessage,
+    copy.videoMessage,
+    copy.documentMessage,
+  ]) {
+    if (media?.caption) {
+      media.caption = renderTemplate(media.caption, variables);
+    }
+  }
+  return copy;
+}
@@ -89,6 +89,16 @@ export async function useRedisAuthState(
   };
 }
 
+export async function getRedisSavedAuthStateMetadata<T>(
+  id: string,
+): Promise<T | null> {
+  const metadata = await redis.hGet(
+    `${redisKeyPrefix}:${id}:authState`,
+    "metadata",
+  );
+  return metadata ? JSON.parse(metadata) : null;
+}
+
 export async function getRedisSavedAuthStateIds<T>(): Promise<
   Array<{ id: string; metadata: T }>
 > {
@@ -0,0 +1,35 @@
+import { describe, it } from "bun:test";
+
+describe("redisBulkMessageJobStore", () => {
+  describe("#useRedisBulkMessageJobStore", () => {
+    describe("createJob", () => {
+      it.todo("save a running job with a pending result per recipient", () => {});
+      it.todo("expire the job after the configured TTL", () => {});
+      it.todo("save the recipients and content and track the job as running", () => {});
+    });
+
+    describe("getRunningJobIds", () => {
+      it.todo("return the ids of the jobs that are not completed", () => {});
+    });
+
+    describe("getJobPayload", () => {
+      it.todo("return the recipients and content of the job", () => {});
+      it.todo("return null if the job has ended or expired", () => {});
+    });
+
+    describe("getJob", () => {
+      it.todo("return the job with its recipient results in order", () => {});
+      it.todo("return null if the job does not exist", () => {});
+    });
+
+    describe("updateRecipient", () => {
+      it.todo("replace the result of the recipient at the given index", () => {});
+    });
+
+    describe("completeJob", () => {
+      it.todo("mark the job as completed without changing its TTL", () => {});
+      it.todo("mark the job with the given status", () => {});
+      it.todo("delete the payload and stop tracking the job as running", () => {});
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { randomUUID } from "node:crypto";
+import { BufferJSON, type proto } from "@whiskeysockets/baileys";
+import type {
+  BulkMessageJob,
+  BulkMessageRecipient,
+  BulkMessageRecipientResult,
+} from "@/baileys/types";
+import config from "@/config";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+export interface BulkMessageJobPayload {
+  recipients: BulkMessageRecipient[];
+  content: proto.IMessage;
+}
+
+// NOTE: Recipient results are kept in a hash indexed by position, so each send only updates its own result.
+// The recipients and the uploaded message content are kept until the job ends, so running jobs can be resumed after a restart.
+export function useRedisBulkMessageJobStore(id: string) {
+  const createKey = (jobId: string, key?: string) =>
+    `${redisKeyPrefix}:${id}:bulk-jobs:${jobId}${key ? `:${key}` : ""}`;
+  const runningJobsKey = `${redisKeyPrefix}:${id}:bulk-jobs-running`;
+  const ttlSeconds = config.bulkMessages.jobTtlHours * 60 * 60;
+
+  return {
+    createJob: async (
+      payload: BulkMessageJobPayload,
+    ): Promise<BulkMessageJob> => {
+      const job: BulkMessageJob = {
+        id: randomUUID(),
+        status: "running",
+        createdAt: Date.now(),
+        recipients: payload.recipients.map(({ jid }) => ({
+          jid,
+          status: "pending",
+        })),
+      };
+      const { recipients, ...metadata } = job;
+      const recipientsKey = createKey(job.id, "recipients");
+      await redis
+        .multi()
+        .set(createKey(job.id), JSON.stringify(metadata), { EX: ttlSeconds })
+        .set(
+          createKey(job.id, "payload"),
+          JSON.stringify(payload, BufferJSON.replacer),
+          { EX: ttlSeconds },
+        )
+        .hSet(
+          recipientsKey,
+          Object.fromEntries(
+            recipients.map((result, index) => [index, JSON.stringify(result)]),
+          ),
+        )
+        .expire(recipientsKey, ttlSeconds)
+        .sAdd(runningJobsKey, job.id)
+        .exec();
+      return job;
+    },
+    getRunningJobIds: () => redis.sMembers(runningJobsKey),
+    getJobPayload: async (
+      jobId: string,
+    ): Promise<BulkMessageJobPayload | null> => {
+      const data = await redis.get(createKey(jobId, "payload"));
+      return data ? JSON.parse(data, BufferJSON.reviver) : null;
+    },
+    getJob: async (jobId: string): Promise<BulkMessageJob | null> => {
+      const [metadata, recipients] = await Promise.all([
+        redis.get(createKey(jobId)),
+        redis.hGetAll(createKey(jobId, "recipients")),
+      ]);
+      if (!metadata) {
+        return null;
+      }
+      return {
+        ...JSON.parse(metadata),
+        recipients: Object.entries(recipients)
+          .sort(([a], [b]) => Number(a) - Number(b))
+          .map(([, result]) => JSON.parse(result, BufferJSON.reviver)),
+      };
+    },
+    updateRecipient: async (
+      jobId: string,
+      index: number,
+      result: BulkMessageRecipientResult,
+    ) => {
+      await redis.hSet(
+        createKey(jobId, "recipients"),
+        index,
+        JSON.stringify(result, BufferJSON.replacer),
+      );
+    },
+    completeJob: async (
+      jobId: string,
+      status: "completed" | "interrupted" = "completed",
+    ) => {
+      await redis
+        .multi()
+        .del(createKey(jobId, "payload"))
+        .sRem(runningJobsKey, jobId)
+        .exec();
+      const data = await redis.get(createKey(jobId));
+      if (!data) {
+        return;
+      }
+      await redis.set(
+        createKey(jobId),
+        JSON.stringify({
+          ...JSON.parse(data),
+          status,
+          completedAt: Date.now(),
+        }),
+        { KEEPTTL: true },
+      );
+    },
+  };
+}
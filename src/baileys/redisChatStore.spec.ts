@@ -0,0 +1,63 @@
+import { describe, it } from "bun:test";
+
+describe("redisChatStore", () => {
+  describe("#useRedisChatStore", () => {
+    describe("saveChats", () => {
+      it.todo("merge the chats into the stored ones", () => {});
+      it.todo("reorder chats by their last activity", () => {});
+      it.todo("drop the least recently active chats past the configured maximum", () => {});
+      it.todo("drop chats without activity past the retention period", () => {});
+      it.todo("keep a single index entry per chat when updated concurrently", () => {});
+    });
+
+    describe("deleteChats", () => {
+      it.todo("delete the chats and their messages", () => {});
+    });
+
+    describe("saveMessages", () => {
+      it.todo("store messages by chat", () => {});
+      it.todo("reorder messages saved again with a different timestamp", () => {});
+      it.todo("not lose chat updates when saved concurrently with chat events", () => {});
+      it.todo("skip protocol messages, reactions and poll votes", () => {});
+      it.todo("update the last message and timestamp of the chat", () => {});
+      it.todo("drop the oldest messages past the configured maximum per chat", () => {});
+      it.todo("drop messages past the retention period", () => {});
+    });
+
+    describe("updateMessages", () => {
+      it.todo("merge the update into the stored message", () => {});
+      it.todo("update the last message of the chat", () => {});
+      it.todo("ignore messages that are not stored", () => {});
+    });
+
+    describe("deleteMessages", () => {
+      it.todo("delete the messages from their chats", () => {});
+    });
+
+    describe("clearChatMessages", () => {
+      it.todo("delete every message of the chat", () => {});
+    });
+
+    describe("getChats", () => {
+      it.todo("return chats most recently active first", () => {});
+      it.todo("return the cursor of the next page", () => {});
+      it.todo("return a null cursor on the last page", () => {});
+    });
+
+    describe("getMessages", () => {
+      it.todo("return messages newest first", () => {});
+      it.todo("continue from the given cursor", () => {});
+    });
+
+    describe("searchMessages", () => {
+      it.todo("return messages matching every filter, newest first", () => {});
+      it.todo("return the total number of matches", () => {});
+      it.todo("not return deleted or dropped messages", () => {});
+      it.todo("match the edited text of updated messages", () => {});
+    });
+
+    describe("clear", () => {
+      it.todo("delete every chat, message and search index entry of the connection", () => {});
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import {
+  BufferJSON,
+  type ChatUpdate,
+  getChatId,
+  isRealMessage,
+  jidNormalizedUser,
+  type proto,
+  toNumber,
+  type WAMessage,
+  type WAMessageKey,
+  type WAMessageUpdate,
+} from "@whiskeysockets/baileys";
+import type { ChatStore } from "@/baileys/chatStore";
+import {
+  createSortKey,
+  decodeCursor,
+  encodeCursor,
+  mergeChat,
+  parseSortKey,
+} from "@/baileys/helpers/chatStore";
+import { useRedisMessageSearchIndex } from "@/baileys/redisMessageSearchIndex";
+import type { StoredChat, StoredPage } from "@/baileys/types";
+import config from "@/config";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+const messageTimestampMs = (message: proto.IWebMessageInfo) =>
+  toNumber(message.messageTimestamp) * 1000;
+
+const chatTimestampMs = (chat: StoredChat) =>
+  (chat.conversationTimestamp ?? 0) * 1000;
+
+const messageChatId = (key: WAMessageKey) =>
+  key.remoteJid ? jidNormalizedUser(getChatId(key)) : null;
+
+// NOTE: Chats and their messages are kept in hashes, ordered by sorted sets whose members are
+// sort keys (see `createSortKey`) compared lexicographically, so pages are stable even when
+// several items share the same timestamp.
+export function useRedisChatStore(id: string): ChatStore {
+  const chatsKey = `${redisKeyPrefix}:${id}:chats`;
+  const chatsIndexKey = `${redisKeyPrefix}:${id}:chats-index`;
+  const createMessagesKey = (jid: string) =>
+    `${redisKeyPrefix}:${id}:chats:${jid}:messages`;
+  const createMessagesIndexKey = (jid: string) =>
+    `${redisKeyPrefix}:${id}:chats:${jid}:messages-index`;
+  const { maxChats, maxMessagesPerChat, retentionDays } = config.chatStore;
+  const searchIndex = useRedisMessageSearchIndex(id);
+
+  const parse = <T>(data: string | null | undefined): T | null =>
+    data ? JSON.parse(data, BufferJSON.reviver) : null;
+  const stringify = (value: unknown) =>
+    JSON.stringify(value, BufferJSON.replacer);
+  const retentionCutoffMs = () => Date.now() - retentionDays * 86_400_000;
+
+  // NOTE: Store events are handled concurrently, so changes to a chat and its messages are
+  // serialized per chat. Otherwise concurrent read-merge-writes lose updates and leave stale
+  // sort keys behind.
+  const chatLocks = new Map<string, Promise<void>>();
+  const withChatLock = async <T>(jid: string, fn: () => Promise<T>) => {
+    const result = (chatLocks.get(jid) ?? Promise.resolve()).then(fn);
+    const lock = result.then(
+      () => {},
+      () => {},
+    );
+    chatLocks.set(jid, lock);
+    try {
+      return await result;
+    } finally {
+      if (chatLocks.get(jid) === lock) {
+        chatLocks.delete(jid);
+      }
+    }
+  };
+
+  const getChat = async (jid: string) =>
+    parse<StoredChat>(await redis.hGet(chatsKey, jid));
+
+  const writeChat = async (chat: StoredChat, previous: StoredChat | null) => {
+    const multi = redis.multi();
+    multi.hSet(chatsKey, chat.id, stringify(chat));
+    if (previous) {
+      multi.zRem(
+        chatsIndexKey,
+        createSortKey(chatTimestampMs(previous), chat.id),
+      );
+    }
+    multi.zAdd(chatsIndexKey, {
+      score: 0,
+      value: createSortKey(chatTimestampMs(chat), chat.id),
+    });
+    await multi.exec();
+  };
+
+  const getMessagesById = async (jid: string, messageIds: string[]) =>
+    messageIds.length > 0
+      ? (await redis.hmGet(createMessagesKey(jid), messageIds)).map((data) =>
+          parse<proto.IWebMessageInfo>(data),
+        )
+      : [];
+
+  const toIndexed = (
+    jid: string,
+    messages: Array<proto.IWebMessageInfo | null>,
+  ) =>
+    messages
+      .filter((message): message is proto.IWebMessageInfo => !!message)
+      .map((message) => ({ jid, message }));
+
+  const removeMessages = async (jid: string, sortKeys: string[]) => {
+    if (sortKeys.length === 0) {
+      return;
+    }
+    const messageIds = sortKeys.map((sortKey) => parseSortKey(sortKey).id);
+    await searchIndex.unindexMessages(
+      toIndexed(jid, await getMessagesById(jid, messageIds)),
+    );
+    await redis
+      .multi()
+      .zRem(createMessagesIndexKey(jid), sortKeys)
+      .hDel(createMessagesKey(jid), messageIds)
+      .exec();
+  };
+
+  const removeAllMessages = async (jid: string) => {
+    const messages = (await redis.hVals(createMessagesKey(jid))).map((data) =>
+      parse<proto.IWebMessageInfo>(data),
+    );
+    await searchIndex.unindexMessages(toIndexed(jid, messages));
+    await redis.del([createMessagesKey(jid), createMessagesIndexKey(jid)]);
+  };
+
+  const deleteChats = async (jids: string[]) => {
+    for (const jid of jids) {
+      await withChatLock(jid, async () => {
+        const chat = await getChat(jid);
+        await removeAllMessages(jid);
+        const multi = redis.multi();
+        multi.hDel(chatsKey, jid);
+        if (chat) {
+          multi.zRem(chatsIndexKey, createSortKey(chatTimestampMs(chat), jid));
+        }
+        await multi.exec();
+      });
+    }
+  };
+
+  const applyMessagesRetention = async (jid: string) => {
+    const indexKey = createMessagesIndexKey(jid);
+    const expired = await redis.zRange(
+      indexKey,
+      "-",
+      `(${createSortKey(retentionCutoffMs(), "")}`,
+      { BY: "LEX" },
+    );
+    await removeMessages(jid, expired);
+
+    const overflow = (await redis.zCard(indexKey)) - maxMessagesPerChat;
+    if (overflow > 0) {
+      await removeMessages(jid, await redis.zRange(indexKey, 0, overflow - 1));
+    }
+  };
+
+  const applyChatsRetention = async () => {
+    // NOTE: Chats without any known activity have a zero timestamp and are only dropped on overflow.
+    const expired = await redis.zRange(
+      chatsIndexKey,
+      `[${createSortKey(1, "")}`,
+      `(${createSortKey(retentionCutoffMs(), "")}`,
+      { BY: "LEX" },
+    );
+    await deleteChats(expired.map((sortKey) => parseSortKey(sortKey).id));
+
+    const overflow = (await redis.zCard(chatsIndexKey)) - maxChats;
+    if (overflow > 0) {
+      const evicted = await redis.zRange(chatsIndexKey, 0, overflow - 1);
+      await deleteChats(evicted.map((sortKey) => parseSortKey(sortKey).id));
+    }
+  };
+
+  const getPage = async <T>(
+    indexKey: string,
+    { cursor, limit }: { cursor?: string; limit: number },
+    getItems: (ids: string[]) => Promise<Array<T | null>>,
+  ): Promise<StoredPage<T>> => {
+    const start = cursor ? decodeCursor(cursor) : null;
+    const sortKeys = await redis.zRange(
+      indexKey,
+      start ? `(${start}` : "+",
+      "-",
+      {
+        BY: "LEX",
+        REV: true,
+        LIMIT: { offset: 0, count: limit + 1 },
+      },
+    );
+    const pageKeys = sortKeys.slice(0, limit);
+    const items = await getItems(
+      pageKeys.map((sortKey) => parseSortKey(sortKey).id),
+    );
+    return {
+      items: items.filter((item): item is T => !!item),
+      nextCursor:
+        sortKeys.length > limit
+          ? encodeCursor(pageKeys[pageKeys.length - 1])
+          : null,
+    };
+  };
+
+  return {
+    saveChats: async (chats: ChatUpdate[], options) => {
+      for (const chat of chats) {
+        const { id: jid } = chat;
+        if (!jid) {
+          continue;
+        }
+        await withChatLock(jid, async () => {
+          const existing = await getChat(jid);
+          await writeChat(mergeChat(existing, chat, options), existing);
+        });
+      }
+      await applyChatsRetention();
+    },
+    deleteChats,
+    saveMessages: async (messages: proto.IWebMessageInfo[]) => {
+      const messagesByChat = new Map<string, proto.IWebMessageInfo[]>();
+      for (const message of messages) {
+        const chatId = message.key ? messageChatId(message.key) : null;
+        if (
+          !chatId ||
+          !message.key?.id ||
+          !isRealMessage(message as WAMessage)
+        ) {
+          continue;
+        }
+        messagesByChat.set(chatId, [
+          ...(messagesByChat.get(chatId) ?? []),
+          message,
+        ]);
+      }
+
+      for (const [jid, chatMessages] of messagesByChat) {
+        await withChatLock(jid, async () => {
+          // NOTE: Messages already stored are unindexed first, as their content and timestamp may have changed.
+          const stored = toIndexed(
+            jid,
+            await getMessagesById(
+              jid,
+              chatMessages.map((message) => message.key?.id as string),
+            ),
+          );
+          await searchIndex.unindexMessages(stored);
+          const multi = redis.multi();
+          for (const { message } of stored) {
+            multi.zRem(
+              createMessagesIndexKey(jid),
+              createSortKey(
+                messageTimestampMs(message),
+                message.key?.id as string,
+              ),
+            );
+          }
+          for (const message of chatMessages) {
+            const messageId = message.key?.id as string;
+            multi.hSet(createMessagesKey(jid), messageId, stringify(message));
+            multi.zAdd(createMessagesIndexKey(jid), {
+              score: 0,
+              value: createSortKey(messageTimestampMs(message), messageId),
+            });
+          }
+          await multi.exec();
+          await searchIndex.indexMessages(toIndexed(jid, chatMessages));
+
+          const latest = chatMessages.reduce((a, b) =>
+            messageTimestampMs(b) >= messageTimestampMs(a) ? b : a,
+          );
+          const existing = await getChat(jid);
+          const chat = mergeChat(existing, {
+            id: jid,
+            conversationTimestamp: toNumber(latest.messageTimestamp),
+          });
+          if (
+            !chat.lastMessage ||
+            messageTimestampMs(latest) >= messageTimestampMs(chat.lastMessage)
+          ) {
+            chat.lastMessage = latest;
+          }
+          await writeChat(chat, existing);
+          await applyMessagesRetention(jid);
+        });
+      }
+      if (messagesByChat.size > 0) {
+        await applyChatsRetention();
+      }
+    },
+    updateMessages: async (updates: WAMessageUpdate[]) => {
+      for (const { key, update } of updates) {
+        const jid = messageChatId(key);
+        const messageId = key.id;
+        if (!jid || !messageId) {
+          continue;
+        }
+        await withChatLock(jid, async () => {
+          const [existing] = await getMessagesById(jid, [messageId]);
+          if (!existing) {
+            return;
+          }
+          const message = { ...existing, ...update };
+          await redis.hSet(
+            createMessagesKey(jid),
+            messageId,
+            stringify(message),
+          );
+          await searchIndex.unindexMessages([{ jid, message: existing }]);
+          await searchIndex.indexMessages([{ jid, message }]);
+
+          const chat = await getChat(jid);
+          if (chat?.lastMessage?.key?.id === messageId) {
+            await writeChat({ ...chat, lastMessage: message }, chat);
+          }
+        });
+      }
+    },
+    deleteMessages: async (keys: WAMessageKey[]) => {
+      for (const key of keys) {
+        const jid = messageChatId(key);
+        const messageId = key.id;
+        if (!jid || !messageId) {
+          continue;
+        }
+        await withChatLock(jid, async () => {
+          const [existing] = await getMessagesById(jid, [messageId]);
+          if (existing) {
+            await removeMessages(jid, [
+              createSortKey(messageTimestampMs(existing), messageId),
+            ]);
+          }
+        });
+      }
+    },
+    clearChatMessages: (jid: string) =>
+      withChatLock(jid, async () => {
+        await removeAllMessages(jid);
+        const chat = await getChat(jid);
+        if (chat) {
+          await writeChat({ ...chat, lastMessage: null }, chat);
+        }
+      }),
+    getChats: (options) =>
+      getPage(chatsIndexKey, options, async (jids) =>
+        jids.length > 0
+          ? (await redis.hmGet(chatsKey, jids)).map((data) =>
+              parse<StoredChat>(data),
+            )
+          : [],
+      ),
+    getMessages: (jid, options) =>
+      getPage(createMessagesIndexKey(jid), options, (messageIds) =>
+        getMessagesById(jid, messageIds),
+      ),
+    searchMessages: async (options) => {
+      const { matches, total } = await searchIndex.search(options);
+      const items = await Promise.all(
+        matches.map(
+          async ({ jid, messageId }) =>
+            (await getMessagesById(jid, [messageId]))[0],
+        ),
+      );
+      return {
+        items: items.filter((item): item is proto.IWebMessageInfo => !!item),
+        total,
+      };
+    },
+    clear: async () => {
+      await searchIndex.clear();
+      const jids = await redis.hKeys(chatsKey);
+      await redis.del([
+        chatsKey,
+        chatsIndexKey,
+        ...jids.flatMap((jid) => [
+          createMessagesKey(jid),
+          createMessagesIndexKey(jid),
+        ]),
+      ]);
+    },
+  };
+}
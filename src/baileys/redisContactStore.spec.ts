@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { createContactSortKey, matchesContactQuery } from "./redisContactStore";
+
+describe("redisContactStore", () => {
+  describe("#matchesContactQuery", () => {
+    const contact = {
+      id: "123456789012345@lid",
+      phoneNumber: "551107654321@s.whatsapp.net",
+      name: "alice",
+    };
+
+    it("matches names case insensitively", () => {
+      expect(matchesContactQuery(contact, "ALI")).toBe(true);
+      expect(matchesContactQuery(contact, "bob")).toBe(false);
+    });
+
+    it("matches phone numbers and jids", () => {
+      expect(matchesContactQuery(contact, "7654321")).toBe(true);
+      expect(matchesContactQuery(contact, "@lid")).toBe(true);
+    });
+
+    it("ignores surrounding whitespace", () => {
+      expect(matchesContactQuery(contact, " alice ")).toBe(true);
+    });
+  });
+
+  describe("#createContactSortKey", () => {
+    it("sorts contacts by name, then by id", () => {
+      const contacts = [
+        { id: "551101234567@s.whatsapp.net", notify: "Bob" },
+        { id: "123456789012345@lid", name: "alice" },
+        { id: "551100000000@s.whatsapp.net", verifiedName: "Acme Inc" },
+        { id: "551100000001@s.whatsapp.net", verifiedName: "Acme Inc" },
+      ];
+      expect(
+        contacts
+          .map(createContactSortKey)
+          .sort()
+          .map((sortKey) => sortKey.split("\u0000")[1]),
+      ).toEqual([
+        "551100000000@s.whatsapp.net",
+        "551100000001@s.whatsapp.net",
+        "123456789012345@lid",
+        "551101234567@s.whatsapp.net",
+      ]);
+    });
+
+    it("sorts contacts without a name by id", () => {
+      expect(createContactSortKey({ id: "551100000000@s.whatsapp.net" })).toBe(
+        "551100000000@s.whatsapp.net\u0000551100000000@s.whatsapp.net",
+      );
+    });
+  });
+
+  describe("#useRedisContactStore", () => {
+    describe("saveContacts", () => {
+      it.todo("merge updates into the stored contact", () => {});
+      it.todo("ignore undefined fields", () => {});
+      it.todo("store the lid and phone number as aliases of the contact", () => {});
+      it.todo("merge the entries stored under the lid and phone number of a contact", () => {});
+      it.todo("reorder the contact when its name changes", () => {});
+    });
+
+    describe("getContact", () => {
+      it.todo("return the contact by its id or alias", () => {});
+      it.todo("return null if the contact is not stored", () => {});
+    });
+
+    describe("linkLidAndPhoneNumber", () => {
+      it.todo("add the pair to the stored contact", () => {});
+      it.todo("do nothing if the contact is not stored", () => {});
+    });
+
+    describe("getContacts", () => {
+      it.todo("return a page of contacts sorted by name and their total", () => {});
+      it.todo("return a page of contacts matching the query and their total", () => {});
+    });
+
+    describe("clear", () => {
+      it.todo("delete the contacts, aliases and index", () => {});
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { type Contact, jidNormalizedUser } from "@whiskeysockets/baileys";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+const SCAN_BATCH_SIZE = 500;
+
+const contactDisplayName = (contact: Contact) =>
+  contact.name || contact.verifiedName || contact.notify || contact.id;
+
+/**
+ * @description Check whether the names, jid or phone number of a contact contain the query, case insensitive.
+ */
+export function matchesContactQuery(contact: Contact, query: string) {
+  const normalizedQuery = query.trim().toLowerCase();
+  return [
+    contact.name,
+    contact.notify,
+    contact.verifiedName,
+    contact.id,
+    contact.lid,
+    contact.phoneNumber,
+  ].some((value) => value?.toLowerCase().includes(normalizedQuery));
+}
+
+/**
+ * @description Member of the contacts index, which sorts contacts by name and then by id.
+ */
+export function createContactSortKey(contact: Contact) {
+  return `${contactDisplayName(contact).toLowerCase()}\u0000${contact.id}`;
+}
+
+const parseContactSortKey = (sortKey: string) =>
+  sortKey.slice(sortKey.lastIndexOf("\u0000") + 1);
+
+const withoutUndefined = <T extends object>(value: T) =>
+  Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined),
+  ) as Partial<T>;
+
+// NOTE: Contacts are kept until the connection is logged out. A contact may be identified
+// by its phone number or its lid, so the other jid is kept as an alias of the contact id.
+// Contacts are ordered by a sorted set of sort keys (see `createContactSortKey`), so pages
+// are read without loading every contact.
+export function useRedisContactStore(id: string) {
+  const contactsKey = `${redisKeyPrefix}:${id}:contacts`;
+  const aliasesKey = `${redisKeyPrefix}:${id}:contacts-aliases`;
+  const indexKey = `${redisKeyPrefix}:${id}:contacts-index`;
+
+  const resolveContactId = async (jid: string) => {
+    const normalizedJid = jidNormalizedUser(jid);
+    if (await redis.hExists(contactsKey, normalizedJid)) {
+      return normalizedJid;
+    }
+    return (await redis.hGet(aliasesKey, normalizedJid)) ?? null;
+  };
+
+  const getContact = async (jid: string): Promise<Contact | null> => {
+    const contactId = await resolveContactId(jid);
+    const data = contactId ? await redis.hGet(contactsKey, contactId) : null;
+    return data ? JSON.parse(data) : null;
+  };
+
+  const getContactsPage = async (start: number, count: number) => {
+    const contactIds = (
+      await redis.zRange(indexKey, start, start + count - 1)
+    ).map(parseContactSortKey);
+    if (contactIds.length === 0) {
+      return [];
+    }
+    return (await redis.hmGet(contactsKey, contactIds))
+      .filter((data): data is string => !!data)
+      .map((data): Contact => JSON.parse(data));
+  };
+
+  const saveContacts = async (contacts: Partial<Contact>[]) => {
+    for (const { id: jid, ...update } of contacts) {
+      if (!jid) {
+        continue;
+      }
+      const existing = await getContact(jid);
+      let contact: Contact = {
+        ...existing,
+        ...withoutUndefined(update),
+        id: existing?.id ?? jidNormalizedUser(jid),
+      };
+
+      // NOTE: The same person may have been stored under both its lid and phone number before
+      // they were linked, in which case the other entry is merged into this one.
+      const duplicates: Contact[] = [];
+      for (const alias of [contact.lid, contact.phoneNumber]) {
+        const duplicate = alias ? await getContact(alias) : null;
+        if (
+          duplicate &&
+          duplicate.id !== contact.id &&
+          !duplicates.some(({ id }) => id === duplicate.id)
+        ) {
+          duplicates.push(duplicate);
+        }
+      }
+      for (const duplicate of duplicates) {
+        contact = { ...withoutUndefined(duplicate), ...contact };
+      }
+
+      const multi = redis.multi();
+      for (const stale of [existing, ...duplicates]) {
+        if (stale) {
+          multi.zRem(indexKey, createContactSortKey(stale));
+        }
+      }
+      for (const duplicate of duplicates) {
+        multi.hDel(contactsKey, duplicate.id);
+      }
+      multi.hSet(contactsKey, contact.id, JSON.stringify(contact));
+      multi.zAdd(indexKey, { score: 0, value: createContactSortKey(contact) });
+      for (const alias of [
+        jid,
+        contact.lid,
+        contact.phoneNumber,
+        ...duplicates.map(({ id }) => id),
+      ]) {
+        if (alias && jidNormalizedUser(alias) !== contact.id) {
+          multi.hSet(aliasesKey, jidNormalizedUser(alias), contact.id);
+        }
+      }
+      await multi.exec();
+    }
+  };
+
+  return {
+    saveContacts,
+    getContact,
+    /**
+     * @description Add a lid/phone number pair to the contact identified by either of them, if it is stored.
+     */
+    linkLidAndPhoneNumber: async ({ lid, pn }: { lid: string; pn: string }) => {
+      const contactId =
+        (await resolveContactId(pn)) ?? (await resolveContactId(lid));
+      if (contactId) {
+        await saveContacts([{ id: contactId, lid, phoneNumber: pn }]);
+      }
+    },
+    getContacts: async ({
+      query,
+      offset,
+      limit,
+    }: {
+      query?: string;
+      offset: number;
+      limit: number;
+    }) => {
+      if (!query?.trim()) {
+        const [contacts, total] = await Promise.all([
+          getContactsPage(offset, limit),
+          redis.zCard(indexKey),
+        ]);
+        return { contacts, total };
+      }
+
+      // NOTE: Names are not indexed, so queries go through the contacts in order, a batch at a time.
+      const contacts: Contact[] = [];
+      let total = 0;
+      const size = await redis.zCard(indexKey);
+      for (let start = 0; start < size; start += SCAN_BATCH_SIZE) {
+        for (const contact of await getContactsPage(start, SCAN_BATCH_SIZE)) {
+          if (!matchesContactQuery(contact, query)) {
+            continue;
+          }
+          if (total >= offset && contacts.length < limit) {
+            contacts.push(contact);
+          }
+          total++;
+        }
+      }
+      return { contacts, total };
+    },
+    clear: async () => {
+      await redis.del([contactsKey, aliasesKey, indexKey]);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it } from "bun:test";
+
+describe("redisMessageQueue", () => {
+  describe("#useRedisMessageQueue", () => {
+    describe("enqueueMessage", () => {
+      it.todo("save the message with a generated id, no attempts and createdAt", () => {});
+      it.todo("mark the connection as having queued messages", () => {});
+    });
+
+    describe("dequeueMessage", () => {
+      it.todo("move the oldest message to the processing list and return it", () => {});
+      it.todo("skip ids whose message no longer exists", () => {});
+      it.todo("return null and unmark the connection when the queue is empty", () => {});
+    });
+
+    describe("completeMessage", () => {
+      it.todo("remove the message from the processing list and delete it", () => {});
+    });
+
+    describe("requeueMessage", () => {
+      it.todo("save the updated message and put it back at the front of the queue", () => {});
+    });
+
+    describe("clearMessages", () => {
+      it.todo("delete every pending message and return them", () => {});
+      it.todo("return an empty list when the queue is empty", () => {});
+    });
+
+    describe("recoverMessages", () => {
+      it.todo("move messages left in the processing list back to the front of the queue", () => {});
+      it.todo("return the number of recovered messages", () => {});
+    });
+  });
+
+  describe("#getQueuedConnectionIds", () => {
+    it.todo("return the connections with queued messages", () => {});
+  });
+});
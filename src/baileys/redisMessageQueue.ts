@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto";
+import { BufferJSON } from "@whiskeysockets/baileys";
+import type { QueuedMessage } from "@/baileys/types";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+// NOTE: Set of connections with queued messages, used by the queue workers to find work.
+const activeConnectionsKey = "@baileys-api:message-queue-connections";
+
+// NOTE: Reliable queue: messages are moved to a processing list while being sent, so
+// messages in flight when the process stops can be recovered on the next start.
+export function useRedisMessageQueue(id: string) {
+  const createKey = (queueId: string) =>
+    `${redisKeyPrefix}:${id}:message-queue:${queueId}`;
+  const pendingKey = `${redisKeyPrefix}:${id}:message-queue`;
+  const processingKey = `${redisKeyPrefix}:${id}:message-queue-processing`;
+
+  const saveMessage = (message: QueuedMessage) =>
+    redis.set(
+      createKey(message.id),
+      JSON.stringify(message, BufferJSON.replacer),
+    );
+
+  return {
+    enqueueMessage: async (
+      message: Omit<QueuedMessage, "id" | "attempts" | "createdAt">,
+    ): Promise<QueuedMessage> => {
+      const queuedMessage: QueuedMessage = {
+        ...message,
+        id: randomUUID(),
+        attempts: 0,
+        createdAt: Date.now(),
+      };
+      await saveMessage(queuedMessage);
+      await redis
+        .multi()
+        .rPush(pendingKey, queuedMessage.id)
+        .sAdd(activeConnectionsKey, id)
+        .exec();
+      return queuedMessage;
+    },
+    /**
+     * @returns The next queued message, or `null` if the queue is empty.
+     */
+    dequeueMessage: async (): Promise<QueuedMessage | null> => {
+      while (true) {
+        const queueId = await redis.lMove(
+          pendingKey,
+          processingKey,
+          "LEFT",
+          "RIGHT",
+        );
+        if (!queueId) {
+          await redis.sRem(activeConnectionsKey, id);
+          // NOTE: A message may have been enqueued after the queue was found empty.
+          if ((await redis.lLen(pendingKey)) > 0) {
+            await redis.sAdd(activeConnectionsKey, id);
+          }
+          return null;
+        }
+
+        const data = await redis.get(createKey(queueId));
+        if (data) {
+          return JSON.parse(data, BufferJSON.reviver);
+        }
+        await redis.lRem(processingKey, 1, queueId);
+      }
+    },
+    completeMessage: async (queueId: string) => {
+      await redis
+        .multi()
+        .lRem(processingKey, 1, queueId)
+        .del(createKey(queueId))
+        .exec();
+    },
+    /**
+     * @description Put a message back at the front of the queue, so retries keep the original order.
+     */
+    requeueMessage: async (message: QueuedMessage) => {
+      await saveMessage(message);
+      await redis
+        .multi()
+        .lRem(processingKey, 1, message.id)
+        .lPush(pendingKey, message.id)
+        .sAdd(activeConnectionsKey, id)
+        .exec();
+    },
+    /**
+     * @description Remove every message waiting in the queue, e.g. when the connection is closed.
+     *
+     * @returns The removed messages.
+     */
+    clearMessages: async (): Promise<QueuedMessage[]> => {
+      const queueIds = await redis.lRange(pendingKey, 0, -1);
+      if (queueIds.length === 0) {
+        return [];
+      }
+      const keys = queueIds.map(createKey);
+      const messages = await redis.mGet(keys);
+      await redis.multi().del(pendingKey).del(keys).exec();
+      return messages
+        .filter((data): data is string => !!data)
+        .map((data) => JSON.parse(data, BufferJSON.reviver));
+    },
+    /**
+     * @description Move messages left in the processing list back to the front of the queue.
+     * Must only be called when no worker is draining this queue.
+     */
+    recoverMessages: async () => {
+      let recovered = 0;
+      while (await redis.lMove(processingKey, pendingKey, "RIGHT", "LEFT")) {
+        recovered++;
+      }
+      if (recovered > 0) {
+        await redis.sAdd(activeConnectionsKey, id);
+      }
+      return recovered;
+    },
+  };
+}
+
+export function getQueuedConnectionIds() {
+  return redis.sMembers(activeConnectionsKey);
+}
@@ -0,0 +1,27 @@
+import { describe, it } from "bun:test";
+
+describe("redisMessageSearchIndex", () => {
+  describe("#useRedisMessageSearchIndex", () => {
+    describe("indexMessages", () => {
+      it.todo("index messages by term, chat, sender and type", () => {});
+      it.todo("index messages sent by the connection under the me sender", () => {});
+    });
+
+    describe("unindexMessages", () => {
+      it.todo("remove the messages from every index", () => {});
+    });
+
+    describe("search", () => {
+      it.todo("return messages containing every term of the text", () => {});
+      it.todo("return no messages if the text has no terms", () => {});
+      it.todo("filter messages by chat, sender, type and time range", () => {});
+      it.todo("return the page at the given offset and the total number of matches", () => {});
+      it.todo("query the index directly when there is at most one filter", () => {});
+      it.todo("delete the intersection once the page is read", () => {});
+    });
+
+    describe("clear", () => {
+      it.todo("delete every index of the connection", () => {});
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { randomUUID } from "node:crypto";
+import {
+  jidNormalizedUser,
+  type proto,
+  toNumber,
+  type WAMessageKey,
+} from "@whiskeysockets/baileys";
+import {
+  getMessageText,
+  getMessageType,
+  tokenizeText,
+} from "@/baileys/helpers/messageSearch";
+import type { MessageSearchOptions } from "@/baileys/types";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+export interface IndexedMessage {
+  jid: string;
+  message: proto.IWebMessageInfo;
+}
+
+// NOTE: Chat jids never contain "/", so the first one separates it from the message id.
+const createMember = (jid: string, messageId: string) => `${jid}/${messageId}`;
+const parseMember = (member: string) => {
+  const separatorIndex = member.indexOf("/");
+  return {
+    jid: member.slice(0, separatorIndex),
+    messageId: member.slice(separatorIndex + 1),
+  };
+};
+
+const getMessageSenders = (message: proto.IWebMessageInfo) => {
+  const key = message.key as WAMessageKey | null | undefined;
+  if (key?.fromMe) {
+    return ["me"];
+  }
+  // NOTE: Senders are indexed by both their phone number and lid jids, when known.
+  return [
+    key?.participant || key?.remoteJid,
+    key?.participant ? key.participantAlt : key?.remoteJidAlt,
+  ]
+    .filter((jid): jid is string => !!jid)
+    .map((jid) => jidNormalizedUser(jid));
+};
+
+// NOTE: Inverted index of the stored messages: one sorted set per term, chat, sender and
+// message type, whose members are the messages scored by their timestamp in milliseconds.
+// Searches with several filters intersect their sets, so the result stays ordered by time.
+export function useRedisMessageSearchIndex(id: string) {
+  const createIndexKey = (...parts: string[]) =>
+    [redisKeyPrefix, id, "search", ...parts].join(":");
+  const allKey = createIndexKey("all");
+  const createTermKey = (term: string) => createIndexKey("term", term);
+  const createChatKey = (jid: string) => createIndexKey("chat", jid);
+  const createSenderKey = (sender: string) => createIndexKey("sender", sender);
+  const createTypeKey = (type: string) => createIndexKey("type", type);
+
+  const getIndexKeys = ({ jid, message }: IndexedMessage) => {
+    const type = getMessageType(message);
+    return [
+      allKey,
+      createChatKey(jid),
+      ...getMessageSenders(message).map(createSenderKey),
+      ...(type ? [createTypeKey(type)] : []),
+      ...tokenizeText(getMessageText(message)).map(createTermKey),
+    ];
+  };
+
+  return {
+    indexMessages: async (messages: IndexedMessage[]) => {
+      if (messages.length === 0) {
+        return;
+      }
+      const multi = redis.multi();
+      for (const indexed of messages) {
+        const { key, messageTimestamp } = indexed.message;
+        if (!key?.id) {
+          continue;
+        }
+        const member = {
+          score: toNumber(messageTimestamp) * 1000,
+          value: createMember(indexed.jid, key.id),
+        };
+        for (const indexKey of getIndexKeys(indexed)) {
+          multi.zAdd(indexKey, member);
+        }
+      }
+      await multi.exec();
+    },
+    unindexMessages: async (messages: IndexedMessage[]) => {
+      if (messages.length === 0) {
+        return;
+      }
+      const multi = redis.multi();
+      for (const indexed of messages) {
+        if (!indexed.message.key?.id) {
+          continue;
+        }
+        const member = createMember(indexed.jid, indexed.message.key.id);
+        for (const indexKey of getIndexKeys(indexed)) {
+          multi.zRem(indexKey, member);
+        }
+      }
+      await multi.exec();
+    },
+    /**
+     * @description Find messages matching every filter, newest first. Text matches messages
+     * containing every term of the text.
+     *
+     * @returns The chat jid and id of the matching messages in the page, and the total number of matches.
+     */
+    search: async ({
+      text,
+      chatJid,
+      sender,
+      type,
+      from,
+      to,
+      offset,
+      limit,
+    }: MessageSearchOptions) => {
+      const terms = text ? tokenizeText(text) : [];
+      if (text && terms.length === 0) {
+        return { matches: [], total: 0 };
+      }
+      const filterKeys = [
+        ...terms.map(createTermKey),
+        ...(chatJid ? [createChatKey(jidNormalizedUser(chatJid))] : []),
+        ...(sender
+          ? [
+              createSenderKey(
+                sender === "me" ? "me" : jidNormalizedUser(sender),
+              ),
+            ]
+          : []),
+        ...(type ? [createTypeKey(type)] : []),
+      ];
+      const min = from ?? "-inf";
+      const max = to ?? "+inf";
+
+      const querySet = async (key: string) => {
+        const [members, total] = await Promise.all([
+          redis.zRange(key, max, min, {
+            BY: "SCORE",
+            REV: true,
+            LIMIT: { offset, count: limit },
+          }),
+          redis.zCount(key, min, max),
+        ]);
+        return { matches: members.map(parseMember), total };
+      };
+
+      const [firstKey, ...otherKeys] = filterKeys;
+      if (otherKeys.length === 0) {
+        return querySet(firstKey ?? allKey);
+      }
+
+      // NOTE: Every set scores a message by its timestamp, so `MIN` keeps it in the intersection.
+      const resultKey = createIndexKey("results", randomUUID());
+      await redis.zInterStore(resultKey, [firstKey, ...otherKeys], {
+        AGGREGATE: "MIN",
+      });
+      try {
+        return await querySet(resultKey);
+      } finally {
+        await redis.del(resultKey);
+      }
+    },
+    clear: async () => {
+      for await (const keys of redis.scanIterator({
+        MATCH: createIndexKey("*"),
+        COUNT: 1000,
+      })) {
+        if (keys.length > 0) {
+          await redis.del(keys);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it } from "bun:test";
+
+describe("redisMessageStatusStore", () => {
+  describe("#messageStatusFromProto", () => {
+    it.todo("map WebMessageInfo statuses to status names", () => {});
+  });
+
+  describe("#messageStatusesFromReceipt", () => {
+    it.todo("return delivered, read and played with their timestamps in milliseconds", () => {});
+    it.todo("skip statuses without a timestamp", () => {});
+  });
+
+  describe("#useRedisMessageStatusStore", () => {
+    describe("trackMessage", () => {
+      it.todo("save the message as pending with its remote jid", () => {});
+      it.todo("expire the status after the configured TTL", () => {});
+    });
+
+    describe("updateStatus", () => {
+      it.todo("ignore messages that are not tracked", () => {});
+      it.todo("keep the time each status was first reached", () => {});
+      it.todo("save participant statuses separately", () => {});
+      it.todo("save the error of failed messages", () => {});
+    });
+
+    describe("getMessageStatus", () => {
+      it.todo("return the furthest status reached", () => {});
+      it.todo("return failed if the message failed", () => {});
+      it.todo("group participant statuses by jid", () => {});
+      it.todo("return null if the message is not tracked", () => {});
+    });
+  });
+});
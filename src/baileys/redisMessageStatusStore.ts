@@ -0,0 +1,165 @@
+import { proto, toNumber } from "@whiskeysockets/baileys";
+import type { MessageStatus, MessageStatusName } from "@/baileys/types";
+import config from "@/config";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+// NOTE: Ordered by lifecycle, so the current status is the furthest one reached.
+const MESSAGE_STATUS_NAMES: ReadonlyArray<MessageStatusName> = [
+  "pending",
+  "server_ack",
+  "delivered",
+  "read",
+  "played",
+];
+
+const PROTO_STATUS_NAMES: Record<
+  proto.WebMessageInfo.Status,
+  MessageStatusName
+> = {
+  [proto.WebMessageInfo.Status.ERROR]: "failed",
+  [proto.WebMessageInfo.Status.PENDING]: "pending",
+  [proto.WebMessageInfo.Status.SERVER_ACK]: "server_ack",
+  [proto.WebMessageInfo.Status.DELIVERY_ACK]: "delivered",
+  [proto.WebMessageInfo.Status.READ]: "read",
+  [proto.WebMessageInfo.Status.PLAYED]: "played",
+};
+
+export function messageStatusFromProto(
+  status: proto.WebMessageInfo.Status,
+): MessageStatusName | undefined {
+  return PROTO_STATUS_NAMES[status];
+}
+
+/**
+ * @returns The statuses reached according to a receipt, with their timestamp in milliseconds.
+ */
+export function messageStatusesFromReceipt(
+  receipt: proto.IUserReceipt,
+): Array<[MessageStatusName, number]> {
+  const statuses: Array<[MessageStatusName, number | Long | null | undefined]> =
+    [
+      ["delivered", receipt.receiptTimestamp],
+      ["read", receipt.readTimestamp],
+      ["played", receipt.playedTimestamp],
+    ];
+  return statuses
+    .filter(([, timestamp]) => !!timestamp)
+    .map(([status, timestamp]) => [status, toNumber(timestamp) * 1000]);
+}
+
+function currentStatus(
+  timestamps: Partial<Record<MessageStatusName, number>>,
+): MessageStatusName {
+  if (timestamps.failed) {
+    return "failed";
+  }
+  return (
+    [...MESSAGE_STATUS_NAMES].reverse().find((status) => timestamps[status]) ??
+    "pending"
+  );
+}
+
+// NOTE: Each status is saved once with the time it was first reached, with `HSETNX`, so
+// concurrent and out of order updates never move a message back in its lifecycle.
+// Fields are `status:<status>` for the message and `participant:<jid>:<status>` for group participants.
+export function useRedisMessageStatusStore(id: string) {
+  const createKey = (messageId: string) =>
+    `${redisKeyPrefix}:${id}:message-status:${messageId}`;
+  const ttlSeconds = config.messageStatus.ttlHours * 60 * 60;
+
+  return {
+    trackMessage: async (key: proto.IMessageKey) => {
+      if (!key.id) {
+        return;
+      }
+      const redisKey = createKey(key.id);
+      await redis
+        .multi()
+        .hSet(redisKey, { remoteJid: key.remoteJid ?? "" })
+        .hSetNX(redisKey, "status:pending", String(Date.now()))
+        .expire(redisKey, ttlSeconds)
+        .exec();
+    },
+    /**
+     * @description Record a status reached by a tracked message. Messages not sent through the API are ignored.
+     *
+     * @param options.participant The group participant the status applies to.
+     * @param options.timestamp When the status was reached, in milliseconds.
+     * @param options.error Why the message failed.
+     */
+    updateStatus: async (
+      messageId: string,
+      status: MessageStatusName,
+      {
+        participant,
+        timestamp = Date.now(),
+        error,
+      }: { participant?: string; timestamp?: number; error?: string } = {},
+    ) => {
+      const redisKey = createKey(messageId);
+      if (!(await redis.exists(redisKey))) {
+        return;
+      }
+      const multi = redis
+        .multi()
+        .hSetNX(
+          redisKey,
+          participant
+            ? `participant:${participant}:${status}`
+            : `status:${status}`,
+          String(timestamp),
+        );
+      if (error) {
+        multi.hSet(redisKey, "error", error);
+      }
+      await multi.exec();
+    },
+    getMessageStatus: async (
+      messageId: string,
+    ): Promise<MessageStatus | null> => {
+      const fields = await redis.hGetAll(createKey(messageId));
+      if (Object.keys(fields).length === 0) {
+        return null;
+      }
+
+      const timestamps: Partial<Record<MessageStatusName, number>> = {};
+      const participantTimestamps = new Map<
+        string,
+        Partial<Record<MessageStatusName, number>>
+      >();
+      for (const [field, value] of Object.entries(fields)) {
+        if (field.startsWith("status:")) {
+          timestamps[field.slice("status:".length) as MessageStatusName] =
+            Number(value);
+        } else if (field.startsWith("participant:")) {
+          // NOTE: JIDs may contain ":" (device ids), statuses never do.
+          const separatorIndex = field.lastIndexOf(":");
+          const jid = field.slice("participant:".length, separatorIndex);
+          const status = field.slice(separatorIndex + 1) as MessageStatusName;
+          participantTimestamps.set(jid, {
+            ...participantTimestamps.get(jid),
+            [status]: Number(value),
+          });
+        }
+      }
+
+      return {
+        messageId,
+        remoteJid: fields.remoteJid,
+        status: currentStatus(timestamps),
+        timestamps,
+        ...(fields.error && { error: fields.error }),
+        participants: Array.from(
+          participantTimestamps,
+          ([jid, participantStatusTimestamps]) => ({
+            jid,
+            status: currentStatus(participantStatusTimestamps),
+            timestamps: participantStatusTimestamps,
+          }),
+        ),
+      };
+    },
+  };
+}
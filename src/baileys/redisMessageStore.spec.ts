@@ -0,0 +1,19 @@
+import { describe, it } from "bun:test";
+
+describe("redisMessageStore", () => {
+  describe("#useRedisMessageStore", () => {
+    describe("saveMessages", () => {
+      it.todo("save messages keyed by connection and message id", () => {});
+      it.todo("set the configured TTL on saved messages", () => {});
+      it.todo("skip messages without key.id or message content", () => {});
+      it.todo("do nothing when there are no messages to save", () => {});
+      it.todo("evict the oldest messages past the configured maximum", () => {});
+      it.todo("drop expired message ids from the index", () => {});
+    });
+
+    describe("getMessage", () => {
+      it.todo("return the stored message with buffers revived", () => {});
+      it.todo("return null if the message is not stored", () => {});
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { BufferJSON, type proto } from "@whiskeysockets/baileys";
+import config from "@/config";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+// NOTE: Messages are kept for a limited time so they can be quoted, forwarded or re-encrypted on retry requests.
+// The store is bounded both by TTL and by a maximum number of messages per connection.
+export function useRedisMessageStore(id: string) {
+  const createKey = (messageId: string) =>
+    `${redisKeyPrefix}:${id}:messages:${messageId}`;
+  // NOTE: Sorted set of stored message ids, scored by the time they were stored.
+  const indexKey = `${redisKeyPrefix}:${id}:messages-index`;
+  const ttlSeconds = config.baileys.messageStoreTtlHours * 60 * 60;
+  const { messageStoreMaxMessages } = config.baileys;
+
+  const evictOverflow = async () => {
+    const overflow = (await redis.zCard(indexKey)) - messageStoreMaxMessages;
+    if (overflow <= 0) {
+      return;
+    }
+    const evicted = await redis.zPopMinCount(indexKey, overflow);
+    await redis.del(evicted.map(({ value }) => createKey(value)));
+  };
+
+  return {
+    saveMessages: async (messages: proto.IWebMessageInfo[]) => {
+      const storableMessages = messages.filter(
+        (message) => message.key?.id && message.message,
+      );
+      if (storableMessages.length === 0) {
+        return;
+      }
+
+      const now = Date.now();
+      const multi = redis.multi();
+      for (const message of storableMessages) {
+        const messageId = message.key?.id as string;
+        multi.set(
+          createKey(messageId),
+          JSON.stringify(message, BufferJSON.replacer),
+          { EX: ttlSeconds },
+        );
+        multi.zAdd(indexKey, { score: now, value: messageId });
+      }
+      multi.zRemRangeByScore(indexKey, "-inf", now - ttlSeconds * 1000);
+      multi.expire(indexKey, ttlSeconds);
+      await multi.execAsPipeline();
+
+      await evictOverflow();
+    },
+    getMessage: async (
+      messageId: string,
+    ): Promise<proto.IWebMessageInfo | null> => {
+      const data = await redis.get(createKey(messageId));
+      return data ? JSON.parse(data, BufferJSON.reviver) : null;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { BufferJSON, type proto } from "@whiskeysockets/baileys";
+import config from "@/config";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+
+// NOTE: Poll votes are encrypted with the poll creation message secret, so we need to keep
+// poll creation messages around to be able to decrypt and aggregate votes.
+export function useRedisPollStore(id: string) {
+  const createKey = (messageId: string, key?: string) =>
+    `${redisKeyPrefix}:${id}:polls:${messageId}${key ? `:${key}` : ""}`;
+  const ttlSeconds = config.baileys.pollsTtlHours * 60 * 60;
+
+  return {
+    savePoll: async (message: proto.IWebMessageInfo) => {
+      if (!message.key?.id) {
+        return;
+      }
+      await redis.set(
+        createKey(message.key.id),
+        JSON.stringify(message, BufferJSON.replacer),
+        { EX: ttlSeconds },
+      );
+    },
+    getPoll: async (
+      messageId: string,
+    ): Promise<proto.IWebMessageInfo | null> => {
+      const data = await redis.get(createKey(messageId));
+      return data ? JSON.parse(data, BufferJSON.reviver) : null;
+    },
+    saveVote: async (
+      messageId: string,
+      voterJid: string,
+      pollUpdate: proto.IPollUpdate,
+    ) => {
+      const key = createKey(messageId, "votes");
+      await redis
+        .multi()
+        .hSet(key, voterJid, JSON.stringify(pollUpdate, BufferJSON.replacer))
+        .expire(key, ttlSeconds)
+        .execAsPipeline();
+    },
+    getVotes: async (messageId: string): Promise<proto.IPollUpdate[]> => {
+      const data = await redis.hGetAll(createKey(messageId, "votes"));
+      return Object.values(data).map((vote) =>
+        JSON.parse(vote, BufferJSON.reviver),
+      );
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "bun:test";
+
+describe("redisScheduledMessageStore", () => {
+  describe("#useRedisScheduledMessageStore", () => {
+    describe("scheduleMessage", () => {
+      it.todo("save the message with a generated id and createdAt", () => {});
+      it.todo("index the message by sendAt for the connection and the scheduler", () => {});
+    });
+
+    describe("getScheduledMessages", () => {
+      it.todo("return the connection's scheduled messages ordered by sendAt", () => {});
+      it.todo("return an empty array when there are no scheduled messages", () => {});
+    });
+
+    describe("cancelScheduledMessage", () => {
+      it.todo("delete the message and remove it from both indexes", () => {});
+      it.todo("return false if the message does not exist", () => {});
+      it.todo("return false if the message is being delivered", () => {});
+    });
+  });
+
+  describe("#claimDueScheduledMessages", () => {
+    it.todo("return due messages of every connection with their phone number", () => {});
+    it.todo("remove claimed messages from the due index and keep them until completed", () => {});
+    it.todo("skip messages claimed by another instance", () => {});
+    it.todo("respect the limit", () => {});
+  });
+
+  describe("#completeScheduledMessage", () => {
+    it.todo("delete the message and remove it from the connection and claimed indexes", () => {});
+  });
+
+  describe("#releaseScheduledMessage", () => {
+    it.todo("put the message back in the due index at the retry time", () => {});
+  });
+
+  describe("#recoverStaleScheduledMessages", () => {
+    it.todo("put messages claimed before the given time back in the due index", () => {});
+    it.todo("drop claims of messages that no longer exist", () => {});
+  });
+});
@@ -0,0 +1,184 @@
+import { randomUUID } from "node:crypto";
+import { BufferJSON } from "@whiskeysockets/baileys";
+import type { ScheduledMessage } from "@/baileys/types";
+import redis from "@/lib/redis";
+
+const redisKeyPrefix = "@baileys-api:connections";
+// NOTE: Sorted set of every connection's scheduled messages, scored by `sendAt`, used by the scheduler to find due messages.
+const dueIndexKey = "@baileys-api:scheduled-messages";
+// NOTE: Sorted set of the messages being delivered, scored by the time they were claimed.
+const claimedIndexKey = "@baileys-api:scheduled-messages-claimed";
+
+const createKey = (id: string, messageId: string) =>
+  `${redisKeyPrefix}:${id}:scheduled-messages:${messageId}`;
+const createIndexKey = (id: string) =>
+  `${redisKeyPrefix}:${id}:scheduled-messages-index`;
+const createDueMember = (id: string, messageId: string) => `${id}:${messageId}`;
+const parseDueMember = (member: string) => {
+  // NOTE: Phone numbers never contain ":", so the first one separates it from the message id.
+  const separatorIndex = member.indexOf(":");
+  return {
+    phoneNumber: member.slice(0, separatorIndex),
+    messageId: member.slice(separatorIndex + 1),
+  };
+};
+
+export function useRedisScheduledMessageStore(id: string) {
+  const indexKey = createIndexKey(id);
+
+  return {
+    scheduleMessage: async (
+      message: Omit<ScheduledMessage, "id" | "createdAt">,
+    ): Promise<ScheduledMessage> => {
+      const scheduledMessage: ScheduledMessage = {
+        ...message,
+        id: randomUUID(),
+        createdAt: Date.now(),
+      };
+      await redis
+        .multi()
+        .set(
+          createKey(id, scheduledMessage.id),
+          JSON.stringify(scheduledMessage, BufferJSON.replacer),
+        )
+        .zAdd(indexKey, {
+          score: scheduledMessage.sendAt,
+          value: scheduledMessage.id,
+        })
+        .zAdd(dueIndexKey, {
+          score: scheduledMessage.sendAt,
+          value: createDueMember(id, scheduledMessage.id),
+        })
+        .exec();
+      return scheduledMessage;
+    },
+    getScheduledMessages: async (): Promise<ScheduledMessage[]> => {
+      const messageIds = await redis.zRange(indexKey, 0, -1);
+      if (messageIds.length === 0) {
+        return [];
+      }
+      const data = await redis.mGet(
+        messageIds.map((messageId) => createKey(id, messageId)),
+      );
+      return data
+        .filter((item): item is string => !!item)
+        .map((item) => JSON.parse(item, BufferJSON.reviver));
+    },
+    /**
+     * @returns Whether the scheduled message existed and was cancelled, `false` if it is being delivered.
+     */
+    cancelScheduledMessage: async (messageId: string) => {
+      // NOTE: Messages being delivered can't be cancelled anymore.
+      if (
+        (await redis.zScore(
+          claimedIndexKey,
+          createDueMember(id, messageId),
+        )) !== null
+      ) {
+        return false;
+      }
+      const [deleted] = await redis
+        .multi()
+        .del(createKey(id, messageId))
+        .zRem(indexKey, messageId)
+        .zRem(dueIndexKey, createDueMember(id, messageId))
+        .exec();
+      return Number(deleted) > 0;
+    },
+  };
+}
+
+/**
+ * @description Claim scheduled messages due until `now`, across every connection.
+ * Each message is removed from the due index as it is claimed, so it is delivered at most once
+ * even with several API instances sharing the same Redis. Claimed messages are kept until
+ * they are completed or released, and recovered by `recoverStaleScheduledMessages` if the
+ * instance delivering them stops.
+ *
+ * @param now Timestamp in milliseconds.
+ * @param limit Maximum number of messages to claim.
+ * @returns The claimed messages with the phone number of their connection.
+ */
+export async function claimDueScheduledMessages(
+  now: number,
+  limit: number,
+): Promise<Array<{ phoneNumber: string; message: ScheduledMessage }>> {
+  const members = await redis.zRangeByScore(dueIndexKey, 0, now, {
+    LIMIT: { offset: 0, count: limit },
+  });
+
+  const claimed: Array<{ phoneNumber: string; message: ScheduledMessage }> = [];
+  for (const member of members) {
+    if ((await redis.zRem(dueIndexKey, member)) === 0) {
+      // NOTE: Claimed by another instance or cancelled in the meantime.
+      continue;
+    }
+    await redis.zAdd(claimedIndexKey, { score: now, value: member });
+
+    const { phoneNumber, messageId } = parseDueMember(member);
+    const data = await redis.get(createKey(phoneNumber, messageId));
+    if (data) {
+      claimed.push({
+        phoneNumber,
+        message: JSON.parse(data, BufferJSON.reviver),
+      });
+    } else {
+      await redis.zRem(claimedIndexKey, member);
+    }
+  }
+  return claimed;
+}
+
+/**
+ * @description Delete a claimed message once it reached a final status.
+ */
+export async function completeScheduledMessage(
+  phoneNumber: string,
+  messageId: string,
+) {
+  await redis
+    .multi()
+    .del(createKey(phoneNumber, messageId))
+    .zRem(createIndexKey(phoneNumber), messageId)
+    .zRem(claimedIndexKey, createDueMember(phoneNumber, messageId))
+    .exec();
+}
+
+/**
+ * @description Put a claimed message back in the due index, to be delivered again at `retryAt`.
+ */
+export async function releaseScheduledMessage(
+  phoneNumber: string,
+  messageId: string,
+  retryAt: number,
+) {
+  const member = createDueMember(phoneNumber, messageId);
+  await redis
+    .multi()
+    .zRem(claimedIndexKey, member)
+    .zAdd(dueIndexKey, { score: retryAt, value: member })
+    .exec();
+}
+
+/**
+ * @description Put messages claimed before `claimedBefore` back in the due index, so messages
+ * claimed by an instance that stopped before delivering them are not lost.
+ *
+ * @returns The number of recovered messages.
+ */
+export async function recoverStaleScheduledMessages(claimedBefore: number) {
+  const members = await redis.zRangeByScore(claimedIndexKey, 0, claimedBefore);
+  let recovered = 0;
+  for (const member of members) {
+    // NOTE: Completed or released by its instance in the meantime.
+    if ((await redis.zRem(claimedIndexKey, member)) === 0) {
+      continue;
+    }
+    const { phoneNumber, messageId } = parseDueMember(member);
+    if (await redis.exists(createKey(phoneNumber, messageId))) {
+      await redis.zAdd(dueIndexKey, { score: claimedBefore, value: member });
+      recovered++;
+    }
+  }
+  return recovered;
+}
@@ -1,7 +1,14 @@
 import type {
+  AnyMessageContent,
   BaileysEventMap,
   MessageReceiptType,
   proto,
+  WAMediaUpload,
+  WAPrivacyCallValue,
+  WAPrivacyGroupAddValue,
+  WAPrivacyOnlineValue,
+  WAPrivacyValue,
+  WAReadReceiptsValue,
 } from "@whiskeysockets/baileys";
 
 export interface BaileysConnectionOptions {
@@ -11,13 +18,166 @@ export interface BaileysConnectionOptions {
   includeMedia?: boolean;
   syncFullHistory?: boolean;
   ignoreGroupMessages?: boolean;
+  simulateTyping?: boolean;
+  dropBlockedMessages?: boolean;
   isReconnect?: boolean;
   onConnectionClose?: () => void;
 }
 
+// NOTE: Baileys does not support sending live locations through `sendMessage`, so we relay them manually.
+// Stickers are converted to WebP with their pack metadata before being sent.
+export type BaileysMessageContent =
+  | AnyMessageContent
+  | { liveLocation: proto.Message.ILiveLocationMessage }
+  | { sticker: WAMediaUpload; packName?: string; author?: string };
+
+export interface ScheduledMessage<TMessageContent = unknown> {
+  id: string;
+  jid: string;
+  // NOTE: Kept as received by the API, so media URLs are only fetched when the message is sent.
+  messageContent: TMessageContent;
+  quotedMessageKey?: proto.IMessageKey;
+  sendAt: number;
+  createdAt: number;
+}
+
+export interface ScheduledMessageUpdate {
+  id: string;
+  jid: string;
+  sendAt: number;
+  status: "sent" | "failed" | "skipped";
+  key?: proto.IMessageKey;
+  messageTimestamp?: proto.IWebMessageInfo["messageTimestamp"];
+  error?: string;
+}
+
+export interface QueuedMessage<TMessageContent = unknown> {
+  id: string;
+  jid: string;
+  // NOTE: Kept as received by the API, so media URLs are only fetched when the message is sent.
+  messageContent: TMessageContent;
+  quotedMessageKey?: proto.IMessageKey;
+  simulateTyping?: boolean;
+  attempts: number;
+  createdAt: number;
+}
+
+export interface MessageQueueUpdate {
+  queueId: string;
+  jid: string;
+  status: "sent" | "failed" | "skipped";
+  attempts: number;
+  key?: proto.IMessageKey;
+  messageTimestamp?: proto.IWebMessageInfo["messageTimestamp"];
+  error?: string;
+}
+
+export interface BulkMessageRecipient {
+  jid: string;
+  variables?: Record<string, string>;
+}
+
+export interface BulkMessageRecipientResult {
+  jid: string;
+  status: "pending" | "sent" | "failed" | "not-on-whatsapp";
+  key?: proto.IMessageKey;
+  messageTimestamp?: proto.IWebMessageInfo["messageTimestamp"];
+  error?: string;
+}
+
+export interface BulkMessageJob {
+  id: string;
+  status: "running" | "completed" | "interrupted";
+  createdAt: number;
+  completedAt?: number;
+  recipients: BulkMessageRecipientResult[];
+}
+
+export type MessageStatusName =
+  | "pending"
+  | "server_ack"
+  | "delivered"
+  | "read"
+  | "played"
+  | "failed";
+
+export interface MessageStatus {
+  messageId: string;
+  remoteJid: string;
+  status: MessageStatusName;
+  // NOTE: When each status was first reached, in milliseconds.
+  timestamps: Partial<Record<MessageStatusName, number>>;
+  error?: string;
+  // NOTE: Receipts of each group participant. Empty for direct chats.
+  participants: Array<{
+    jid: string;
+    status: MessageStatusName;
+    timestamps: Partial<Record<MessageStatusName, number>>;
+  }>;
+}
+
+export interface PrivacySettings {
+  lastSeen: WAPrivacyValue;
+  online: WAPrivacyOnlineValue;
+  profilePicture: WAPrivacyValue;
+  about: WAPrivacyValue;
+  readReceipts: WAReadReceiptsValue;
+  groupAdd: WAPrivacyGroupAddValue;
+  callAdd: WAPrivacyCallValue;
+}
+
+export interface StoredChat {
+  id: string;
+  name: string | null;
+  unreadCount: number;
+  // NOTE: Chats can be marked as unread on the phone without any unread message.
+  markedAsUnread: boolean;
+  archived: boolean;
+  pinned: boolean;
+  muteEndTime: number | null;
+  // NOTE: Unix timestamp in seconds of the last activity in the chat.
+  conversationTimestamp: number | null;
+  lastMessage: proto.IWebMessageInfo | null;
+}
+
+export interface StoredPage<T> {
+  items: T[];
+  // NOTE: Cursor of the next page, or `null` on the last page.
+  nextCursor: string | null;
+}
+
+export interface MessageSearchOptions {
+  // NOTE: Matches messages containing every word of the text, in their text, caption, file name or poll.
+  text?: string;
+  chatJid?: string;
+  // NOTE: Jid of the sender, or `me` for messages sent by the connection.
+  sender?: string;
+  // NOTE: Message type, e.g. `text`, `image` or `document`.
+  type?: string;
+  // NOTE: Unix timestamps in milliseconds.
+  from?: number;
+  to?: number;
+  offset: number;
+  limit: number;
+}
+
+export interface MessageSearchResult {
+  items: proto.IWebMessageInfo[];
+  total: number;
+}
+
+// NOTE: Events emitted by the API itself, in addition to the Baileys events.
+export interface BaileysApiEventMap {
+  "scheduled-messages.update": ScheduledMessageUpdate;
+  "message-queue.update": MessageQueueUpdate;
+}
+
 export interface BaileysConnectionWebhookPayload {
-  event: keyof BaileysEventMap;
-  data: BaileysEventMap[keyof BaileysEventMap] | { error: string };
+  event: keyof BaileysEventMap | keyof BaileysApiEventMap;
+  data:
+    | BaileysEventMap[keyof BaileysEventMap]
+    | BaileysApiEventMap[keyof BaileysApiEventMap]
+    | { error: string };
   extra?: unknown;
 }
 
@@ -23,7 +23,41 @@ const {
   MEDIA_CLEANUP_ENABLED,
   MEDIA_CLEANUP_INTERVAL_MS,
   MEDIA_MAX_AGE_HOURS,
+  MEDIA_COMPRESS_IMAGES,
+  MEDIA_IMAGE_MAX_DIMENSION_PX,
+  MEDIA_IMAGE_MAX_BYTES,
+  MEDIA_IMAGE_JPEG_QUALITY,
+  MEDIA_TRANSCODE_VIDEOS,
+  MEDIA_GENERATE_THUMBNAILS,
+  MEDIA_SOURCE_MAX_BYTES,
+  MEDIA_SOURCE_FETCH_TIMEOUT_MS,
   BAILEYS_LISTEN_TO_EVENTS,
+  BAILEYS_POLLS_TTL_HOURS,
+  BAILEYS_MESSAGE_STORE_TTL_HOURS,
+  BAILEYS_MESSAGE_STORE_MAX_MESSAGES,
+  SCHEDULED_MESSAGES_INTERVAL_MS,
+  MESSAGE_QUEUE_MESSAGES_PER_MINUTE,
+  MESSAGE_QUEUE_JITTER_MS,
+  MESSAGE_QUEUE_CONCURRENCY,
+  MESSAGE_QUEUE_MAX_ATTEMPTS,
+  MESSAGE_QUEUE_INTERVAL_MS,
+  BULK_MESSAGES_JOB_TTL_HOURS,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_KEY_WAIT_TIMEOUT_MS,
+  MESSAGE_STATUS_TTL_HOURS,
+  TYPING_SIMULATION_MIN_MS,
+  TYPING_SIMULATION_MAX_MS,
+  TYPING_SIMULATION_MS_PER_CHARACTER,
+  GROUP_METADATA_CACHE_MAX_GROUPS,
+  GROUP_METADATA_CACHE_TTL_MINUTES,
+  GROUP_METADATA_CACHE_REDIS,
+  CHAT_STORE,
+  CHAT_STORE_MAX_CHATS,
+  CHAT_STORE_MAX_MESSAGES_PER_CHAT,
+  CHAT_STORE_RETENTION_DAYS,
+  LINK_PREVIEW_TIMEOUT_MS,
+  LINK_PREVIEW_MAX_BYTES,
+  ALLOW_PRIVATE_URLS,
 } = process.env;
 
 const config = {
@@ -65,6 +99,11 @@ const config = {
         ? BAILEYS_LISTEN_TO_EVENTS.split(",").map((e) => e.trim())
         : [],
     ),
+    // NOTE: Poll creation messages are kept to decrypt votes, which may arrive days after the poll is created.
+    pollsTtlHours: Number(BAILEYS_POLLS_TTL_HOURS) || 7 * 24, // 7 days
+    messageStoreTtlHours: Number(BAILEYS_MESSAGE_STORE_TTL_HOURS) || 24, // 24 hours
+    messageStoreMaxMessages:
+      Number(BAILEYS_MESSAGE_STORE_MAX_MESSAGES) || 10000,
   },
   redis: {
     url: REDIS_URL || "redis://localhost:6379",
@@ -84,10 +123,69 @@ const config = {
     },
   },
   corsOrigin: CORS_ORIGIN || "localhost",
+  // NOTE: Media, profile picture and link preview URLs given by API callers can't reach private addresses unless enabled.
+  allowPrivateUrls: ALLOW_PRIVATE_URLS === "true",
   media: {
     cleanupEnabled: MEDIA_CLEANUP_ENABLED === "true",
     cleanupIntervalMs: Number(MEDIA_CLEANUP_INTERVAL_MS) || 60 * 60 * 1000, // 1 hour
     maxAgeHours: Number(MEDIA_MAX_AGE_HOURS) || 24, // 24 hours
+    // NOTE: Defaults for media preprocessing on send, which can be overridden per request.
+    compressImages: MEDIA_COMPRESS_IMAGES
+      ? MEDIA_COMPRESS_IMAGES === "true"
+      : true,
+    imageMaxDimensionPx: Number(MEDIA_IMAGE_MAX_DIMENSION_PX) || 1600,
+    imageMaxBytes: Number(MEDIA_IMAGE_MAX_BYTES) || 1024 * 1024, // 1 MB
+    imageJpegQuality: Number(MEDIA_IMAGE_JPEG_QUALITY) || 80,
+    transcodeVideos: MEDIA_TRANSCODE_VIDEOS
+      ? MEDIA_TRANSCODE_VIDEOS === "true"
+      : true,
+    generateThumbnails: MEDIA_GENERATE_THUMBNAILS
+      ? MEDIA_GENERATE_THUMBNAILS === "true"
+      : true,
+    // NOTE: Limits for media sent from a URL or a multipart upload.
+    maxSourceBytes: Number(MEDIA_SOURCE_MAX_BYTES) || 100 * 1024 * 1024, // 100 MB
+    fetchTimeoutMs: Number(MEDIA_SOURCE_FETCH_TIMEOUT_MS) || 60 * 1000, // 1 minute
+  },
+  scheduledMessages: {
+    intervalMs: Number(SCHEDULED_MESSAGES_INTERVAL_MS) || 5000, // 5 seconds
+  },
+  messageQueue: {
+    messagesPerMinute: Number(MESSAGE_QUEUE_MESSAGES_PER_MINUTE) || 20,
+    jitterMs: Number(MESSAGE_QUEUE_JITTER_MS) || 1000, // 1 second
+    concurrency: Number(MESSAGE_QUEUE_CONCURRENCY) || 1,
+    maxAttempts: Number(MESSAGE_QUEUE_MAX_ATTEMPTS) || 3,
+    intervalMs: Number(MESSAGE_QUEUE_INTERVAL_MS) || 1000, // 1 second
+  },
+  bulkMessages: {
+    jobTtlHours: Number(BULK_MESSAGES_JOB_TTL_HOURS) || 24 * 7, // 7 days
+  },
+  idempotency: {
+    ttlHours: Number(IDEMPOTENCY_KEY_TTL_HOURS) || 24,
+    waitTimeoutMs: Number(IDEMPOTENCY_KEY_WAIT_TIMEOUT_MS) || 10000, // 10 seconds
+  },
+  messageStatus: {
+    ttlHours: Number(MESSAGE_STATUS_TTL_HOURS) || 24 * 7, // 7 days
+  },
+  typingSimulation: {
+    minMs: Number(TYPING_SIMULATION_MIN_MS) || 1000, // 1 second
+    maxMs: Number(TYPING_SIMULATION_MAX_MS) || 5000, // 5 seconds
+    msPerCharacter: Number(TYPING_SIMULATION_MS_PER_CHARACTER) || 50,
+  },
+  groupMetadataCache: {
+    maxGroups: Number(GROUP_METADATA_CACHE_MAX_GROUPS) || 1000,
+    ttlMinutes: Number(GROUP_METADATA_CACHE_TTL_MINUTES) || 60, // 1 hour
+    persistInRedis: GROUP_METADATA_CACHE_REDIS === "true",
+  },
+  chatStore: {
+    // NOTE: Only `redis` is supported for now. The store is disabled when unset.
+    driver: CHAT_STORE || null,
+    maxChats: Number(CHAT_STORE_MAX_CHATS) || 1000,
+    maxMessagesPerChat: Number(CHAT_STORE_MAX_MESSAGES_PER_CHAT) || 1000,
+    retentionDays: Number(CHAT_STORE_RETENTION_DAYS) || 30, // 30 days
+  },
+  linkPreview: {
+    timeoutMs: Number(LINK_PREVIEW_TIMEOUT_MS) || 5000, // 5 seconds
+    maxBytes: Number(LINK_PREVIEW_MAX_BYTES) || 5 * 1024 * 1024, // 5 MB
   },
 };
 
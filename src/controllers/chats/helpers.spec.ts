@@ -0,0 +1,32 @@
+import { describe, expect, it } from "bun:test";
+import {
+  BaileysChatStoreDisabledError,
+  BaileysNotConnectedError,
+} from "@/baileys/connection";
+import { InvalidCursorError } from "@/baileys/helpers/chatStore";
+import { chatErrorResponse } from "./helpers";
+
+describe("chats helpers", () => {
+  describe("#chatErrorResponse", () => {
+    it("returns 404 if the connection does not exist", () => {
+      expect(chatErrorResponse(new BaileysNotConnectedError()).status).toBe(
+        404,
+      );
+    });
+
+    it("returns 501 if the chat store is disabled", () => {
+      expect(
+        chatErrorResponse(new BaileysChatStoreDisabledError()).status,
+      ).toBe(501);
+    });
+
+    it("returns 400 for invalid cursors", () => {
+      expect(chatErrorResponse(new InvalidCursorError()).status).toBe(400);
+    });
+
+    it("rethrows other errors", () => {
+      const error = new Error("unexpected");
+      expect(() => chatErrorResponse(error)).toThrow(error);
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import {
+  BaileysChatStoreDisabledError,
+  BaileysNotConnectedError,
+} from "@/baileys/connection";
+import { InvalidCursorError } from "@/baileys/helpers/chatStore";
+
+/**
+ * @description Map errors of chat store queries to responses. Any other error is rethrown.
+ */
+export function chatErrorResponse(error: unknown): Response {
+  if (error instanceof BaileysNotConnectedError) {
+    return new Response("Phone number not found", { status: 404 });
+  }
+  if (error instanceof BaileysChatStoreDisabledError) {
+    return new Response(error.message, { status: 501 });
+  }
+  if (error instanceof InvalidCursorError) {
+    return new Response(error.message, { status: 400 });
+  }
+  throw error;
+}
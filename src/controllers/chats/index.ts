@@ -0,0 +1,237 @@
+import Elysia, { t } from "elysia";
+import baileys from "@/baileys";
+import { chatErrorResponse } from "@/controllers/chats/helpers";
+import {
+  nextCursorSchema,
+  paginationQuery,
+  storedChatSchema,
+} from "@/controllers/chats/types";
+import { phoneNumberParams } from "@/controllers/connections/types";
+import { authMiddleware } from "@/middlewares/auth";
+
+const chatsController = new Elysia({
+  prefix: "/connections",
+  detail: {
+    tags: ["Chats"],
+    security: [{ xApiKey: [] }],
+  },
+})
+  // TODO: Use auth data to limit access to existing connections.
+  .use(authMiddleware)
+  .get(
+    "/:phoneNumber/chats",
+    async ({ params, query }) => {
+      const { phoneNumber } = params;
+      const { cursor, limit = 50 } = query;
+
+      try {
+        const { items, nextCursor } = await baileys.getChats(phoneNumber, {
+          cursor,
+          limit,
+        });
+        return { data: items, nextCursor };
+      } catch (e) {
+        return chatErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      query: paginationQuery,
+      detail: {
+        description:
+          "Lists the stored chats, most recently active first. Requires `CHAT_STORE`.",
+        responses: {
+          200: {
+            description: "Chats",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: storedChatSchema },
+                    nextCursor: nextCursorSchema,
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: "Invalid cursor",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+          501: {
+            description: "Chat store disabled",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/chats/:jid/messages",
+    async ({ params, query }) => {
+      const { phoneNumber, jid } = params;
+      const { cursor, limit = 50 } = query;
+
+      try {
+        const { items, nextCursor } = await baileys.getChatMessages(
+          phoneNumber,
+          jid,
+          { cursor, limit },
+        );
+        return { data: items, nextCursor };
+      } catch (e) {
+        return chatErrorResponse(e);
+      }
+    },
+    {
+      params: t.Object({
+        ...phoneNumberParams.properties,
+        jid: t.String({
+          description: "Chat jid",
+          example: "551101234567@s.whatsapp.net",
+        }),
+      }),
+      query: paginationQuery,
+      detail: {
+        description:
+          "Lists the stored messages of a chat, newest first. Requires `CHAT_STORE`.",
+        responses: {
+          200: {
+            description: "Messages, as sent in `messages.upsert`",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { type: "object" } },
+                    nextCursor: nextCursorSchema,
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description: "Invalid cursor",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+          501: {
+            description: "Chat store disabled",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/messages/search",
+    async ({ params, query }) => {
+      const { phoneNumber } = params;
+      const { offset = 0, limit = 50, ...filters } = query;
+
+      try {
+        const { items, total } = await baileys.searchMessages(phoneNumber, {
+          ...filters,
+          offset,
+          limit,
+        });
+        return { data: items, total };
+      } catch (e) {
+        return chatErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      query: t.Object({
+        text: t.Optional(
+          t.String({
+            description:
+              "Only return messages containing every word of this text, in their text, caption, file name or poll question. Case and accent insensitive.",
+            example: "invoice march",
+          }),
+        ),
+        chatJid: t.Optional(
+          t.String({
+            description: "Only return messages of this chat",
+            example: "551101234567@s.whatsapp.net",
+          }),
+        ),
+        sender: t.Optional(
+          t.String({
+            description:
+              "Only return messages sent by this jid, or `me` for messages sent by the connection",
+            example: "551101234567@s.whatsapp.net",
+          }),
+        ),
+        type: t.Optional(
+          t.String({
+            description:
+              "Only return messages of this type, e.g. `text`, `image`, `video`, `audio`, `document`, `sticker`, `location` or `contact`",
+            example: "image",
+          }),
+        ),
+        from: t.Optional(
+          t.Numeric({
+            description:
+              "Only return messages sent at or after this Unix timestamp in milliseconds",
+            example: 1735689600000,
+          }),
+        ),
+        to: t.Optional(
+          t.Numeric({
+            description:
+              "Only return messages sent at or before this Unix timestamp in milliseconds",
+            example: 1738368000000,
+          }),
+        ),
+        offset: t.Optional(
+          t.Numeric({
+            minimum: 0,
+            default: 0,
+            description: "Messages to skip",
+          }),
+        ),
+        limit: t.Optional(
+          t.Numeric({
+            minimum: 1,
+            maximum: 100,
+            default: 50,
+            description: "Maximum number of messages to return",
+          }),
+        ),
+      }),
+      detail: {
+        description:
+          "Searches the stored messages, newest first. Every filter is optional and they are combined. Requires `CHAT_STORE`.",
+        responses: {
+          200: {
+            description: "Messages, as sent in `messages.upsert`",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: { type: "object" } },
+                    total: {
+                      type: "number",
+                      description: "Number of matching messages",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+          501: {
+            description: "Chat store disabled",
+          },
+        },
+      },
+    },
+  );
+
+export default chatsController;
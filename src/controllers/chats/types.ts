@@ -0,0 +1,55 @@
+import { t } from "elysia";
+
+export const paginationQuery = t.Object({
+  cursor: t.Optional(
+    t.String({
+      description: "`nextCursor` of the previous page",
+    }),
+  ),
+  limit: t.Optional(
+    t.Numeric({
+      minimum: 1,
+      maximum: 100,
+      default: 50,
+      description: "Maximum number of items to return",
+    }),
+  ),
+});
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const nextCursorSchema = {
+  type: "string",
+  nullable: true,
+  description: "Cursor of the next page, or null on the last page",
+} as const;
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const storedChatSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", example: "551101234567@s.whatsapp.net" },
+    name: { type: "string", nullable: true },
+    unreadCount: { type: "number" },
+    markedAsUnread: {
+      type: "boolean",
+      description: "Marked as unread on the phone",
+    },
+    archived: { type: "boolean" },
+    pinned: { type: "boolean" },
+    muteEndTime: {
+      type: "number",
+      nullable: true,
+      description: "Unix timestamp in seconds until which the chat is muted",
+    },
+    conversationTimestamp: {
+      type: "number",
+      nullable: true,
+      description: "Unix timestamp in seconds of the last activity",
+    },
+    lastMessage: {
+      type: "object",
+      nullable: true,
+      description: "Last message of the chat, as sent in `messages.upsert`",
+    },
+  },
+} as const;
@@ -1,41 +1,294 @@
-import type { AnyMessageContent } from "@whiskeysockets/baileys";
+import type { Readable } from "node:stream";
 import type { Static } from "elysia";
-import type { anyMessageContent } from "./types";
+import { generateLinkPreview } from "@/baileys/helpers/generateLinkPreview";
+import {
+  fetchMediaStream,
+  fileToMediaStream,
+  isAcceptedMimetype,
+  validateMediaUrl,
+} from "@/baileys/helpers/mediaSource";
+import type { BaileysMessageContent } from "@/baileys/types";
+import type { anyMessageContent, mediaType, sendMediaBody } from "./types";
 
-export function buildMessageContent(
+export class InvalidMessageContentError extends Error {}
+
+type ContactVCard = { displayName?: string; vcard: string };
+
+const VCARD_SUPPORTED_VERSIONS = ["2.1", "3.0", "4.0"];
+
+/**
+ * @description Validate a vCard so a malformed card is rejected before reaching Baileys.
+ * Checks the BEGIN/END envelope, a supported VERSION, a non-empty FN and that every
+ * (unfolded) line follows the `NAME[;PARAMS]:VALUE` content line format.
+ *
+ * @param vcard The raw vCard string.
+ * @returns The trimmed vCard with `\n` line endings.
+ */
+export function validateVCard(vcard: string): string {
+  const normalized = vcard.replace(/\r\n?/g, "\n").trim();
+  // NOTE: Lines starting with whitespace are continuations of the previous line (RFC 6350 folding).
+  const lines = normalized
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim());
+
+  if (
+    lines[0]?.toUpperCase() !== "BEGIN:VCARD" ||
+    lines[lines.length - 1]?.toUpperCase() !== "END:VCARD"
+  ) {
+    throw new InvalidMessageContentError(
+      "Invalid vCard: must start with BEGIN:VCARD and end with END:VCARD",
+    );
+  }
+
+  const properties = lines.slice(1, -1).map((line) => {
+    const match = line.match(/^([A-Za-z0-9-.]+)((?:;[^:]*)?):(.*)$/);
+    if (!match) {
+      throw new InvalidMessageContentError(
+        `Invalid vCard: malformed line "${line}"`,
+      );
+    }
+    // NOTE: Property names may be prefixed by a group, e.g. `item1.TEL`.
+    const [, name, , value] = match;
+    return { name: name.toUpperCase().split(".").pop(), value };
+  });
+
+  if (properties.some(({ name }) => name === "BEGIN" || name === "END")) {
+    throw new InvalidMessageContentError(
+      "Invalid vCard: only a single card is allowed per contact",
+    );
+  }
+
+  const version = properties.find(({ name }) => name === "VERSION")?.value;
+  if (!version || !VCARD_SUPPORTED_VERSIONS.includes(version.trim())) {
+    throw new InvalidMessageContentError(
+      `Invalid vCard: VERSION must be one of ${VCARD_SUPPORTED_VERSIONS.join(", ")}`,
+    );
+  }
+
+  if (!properties.some(({ name, value }) => name === "FN" && value.trim())) {
+    throw new InvalidMessageContentError(
+      "Invalid vCard: FN (formatted name) is required",
+    );
+  }
+
+  return normalized;
+}
+
+function buildContact({ displayName, vcard }: ContactVCard) {
+  return { displayName, vcard: validateVCard(vcard) };
+}
+
+const MEDIA_ACCEPT: Record<Static<typeof mediaType>, string[]> = {
+  image: ["image/*"],
+  video: ["video/*"],
+  audio: ["audio/*", "video/ogg", "application/ogg"],
+  document: ["*/*"],
+  sticker: ["image/*"],
+};
+
+/**
+ * @description Resolve a media field, either base64 data or a URL. URLs are streamed
+ * instead of buffered, so large media doesn't need to fit in memory.
+ */
+async function resolveMedia(
+  source: string | { url: string },
+  type: Static<typeof mediaType>,
+): Promise<{ media: Buffer | { stream: Readable }; mimetype?: string }> {
+  if (typeof source === "string") {
+    return { media: Buffer.from(source, "base64") };
+  }
+  const { stream, mimetype } = await fetchMediaStream(source.url, {
+    accept: MEDIA_ACCEPT[type],
+  });
+  return { media: { stream }, mimetype };
+}
+
+function validatePoll({
+  values,
+  selectableCount = 1,
+}: {
+  values: string[];
+  selectableCount?: number;
+}) {
+  if (new Set(values).size !== values.length) {
+    throw new InvalidMessageContentError("Poll options must be unique");
+  }
+  if (selectableCount > values.length) {
+    throw new InvalidMessageContentError(
+      `Poll selectableCount must be between 0 and ${values.length}`,
+    );
+  }
+}
+
+/**
+ * @description Check a message content without fetching its media, so content sent later
+ * (e.g. queued) is rejected right away instead of failing when it is sent.
+ */
+export function validateMessageContent(
   content: Static<typeof anyMessageContent>,
-): AnyMessageContent {
+) {
+  for (const [field, value] of Object.entries(content)) {
+    if (
+      field in MEDIA_ACCEPT &&
+      value &&
+      typeof value === "object" &&
+      "url" in value
+    ) {
+      validateMediaUrl(value.url);
+    }
+  }
+  if ("contact" in content) {
+    validateVCard(content.contact.vcard);
+  }
+  if ("contacts" in content) {
+    for (const { vcard } of content.contacts.contacts) {
+      validateVCard(vcard);
+    }
+  }
+  if ("poll" in content) {
+    validatePoll(content.poll);
+  }
+}
+
+export function getMediaPreprocessing(
+  content: Static<typeof anyMessageContent>,
+) {
+  return "preprocessing" in content ? content.preprocessing : undefined;
+}
+
+export async function buildMessageContent(
+  content: Static<typeof anyMessageContent>,
+): Promise<BaileysMessageContent> {
   if ("text" in content) {
-    return content;
+    const { linkPreview, ...textContent } = content;
+    return {
+      ...textContent,
+      // NOTE: `null` prevents Baileys from trying to generate a preview on its own.
+      linkPreview: linkPreview ? await generateLinkPreview(content.text) : null,
+    };
   }
   if ("image" in content) {
+    const { preprocessing: _, ...imageContent } = content;
+    const { media, mimetype } = await resolveMedia(content.image, "image");
     return {
-      ...content,
-      image: Buffer.from(content.image, "base64"),
+      ...imageContent,
+      image: media,
+      mimetype: content.mimetype ?? mimetype,
     };
   }
   if ("video" in content) {
+    const { preprocessing: _, ...videoContent } = content;
+    const { media, mimetype } = await resolveMedia(content.video, "video");
     return {
-      ...content,
-      video: Buffer.from(content.video, "base64"),
+      ...videoContent,
+      video: media,
+      mimetype: content.mimetype ?? mimetype,
     };
   }
   if ("document" in content) {
+    const { media, mimetype } = await resolveMedia(
+      content.document,
+      "document",
+    );
     return {
       ...content,
-      document: Buffer.from(content.document, "base64"),
+      document: media,
+      mimetype: content.mimetype ?? mimetype,
     };
   }
   if ("audio" in content) {
+    const { media, mimetype } = await resolveMedia(content.audio, "audio");
     return {
       ...content,
-      audio: Buffer.from(content.audio, "base64"),
+      audio: media,
+      mimetype: content.mimetype ?? mimetype,
+    };
+  }
+  if ("sticker" in content) {
+    const { media } = await resolveMedia(content.sticker, "sticker");
+    return {
+      sticker: media,
+      packName: content.packName,
+      author: content.author,
     };
   }
   if ("react" in content) {
     return { react: content.react };
   }
+  if ("location" in content) {
+    return { location: content.location };
+  }
+  if ("liveLocation" in content) {
+    return { liveLocation: content.liveLocation };
+  }
+  if ("contact" in content) {
+    const contact = buildContact(content.contact);
+    return {
+      contacts: {
+        displayName: contact.displayName,
+        contacts: [contact],
+      },
+    };
+  }
+  if ("contacts" in content) {
+    return {
+      contacts: {
+        displayName: content.contacts.displayName,
+        contacts: content.contacts.contacts.map(buildContact),
+      },
+    };
+  }
+
+  if ("poll" in content) {
+    const { name, values, selectableCount = 1 } = content.poll;
+    validatePoll(content.poll);
+    return {
+      poll: { name, values, selectableCount },
+      mentions: content.mentions,
+    };
+  }
 
   // NOTE: This should never happen
   throw new Error("Invalid message content");
 }
+
+/**
+ * @description Build the message content for a file received in a multipart upload.
+ * The file is streamed into Baileys instead of being converted to a buffer.
+ */
+export async function buildUploadedMediaContent({
+  type,
+  file,
+  caption,
+  fileName,
+  mimetype = file.type || undefined,
+  ptt,
+  packName,
+  author,
+}: Omit<Static<typeof sendMediaBody>, "jid">): Promise<BaileysMessageContent> {
+  if (!isAcceptedMimetype(mimetype, MEDIA_ACCEPT[type])) {
+    throw new InvalidMessageContentError(
+      `Unsupported ${type} content type ${mimetype}, expected ${MEDIA_ACCEPT[type].join(", ")}`,
+    );
+  }
+
+  const { stream } = fileToMediaStream(file);
+  switch (type) {
+    case "image":
+      return { image: { stream }, caption, mimetype };
+    case "video":
+      return { video: { stream }, caption, mimetype };
+    case "audio":
+      return { audio: { stream }, ptt, mimetype };
+    case "document":
+      return {
+        document: { stream },
+        caption,
+        mimetype: mimetype ?? "application/octet-stream",
+        fileName: fileName ?? file.name,
+      };
+    case "sticker":
+      return { sticker: { stream }, packName, author };
+  }
+}
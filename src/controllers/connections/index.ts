@@ -1,14 +1,38 @@
 import Elysia, { t } from "elysia";
 import baileys from "@/baileys";
-import { BaileysNotConnectedError } from "@/baileys/connection";
-import { buildMessageContent } from "@/controllers/connections/helpers";
+import {
+  BaileysHistoryFetchTimeoutError,
+  BaileysMessageNotEditableError,
+  BaileysMessageNotFoundError,
+  BaileysNotConnectedError,
+} from "@/baileys/connection";
+import { InvalidMediaSourceError } from "@/baileys/helpers/mediaSource";
+import { UnsupportedStickerError } from "@/baileys/helpers/preprocessSticker";
+import {
+  buildMessageContent,
+  buildUploadedMediaContent,
+  getMediaPreprocessing,
+  InvalidMessageContentError,
+  validateMessageContent,
+} from "@/controllers/connections/helpers";
 import { authMiddleware } from "@/middlewares/auth";
+import {
+  idempotencyKeyHeaders,
+  idempotencyMiddleware,
+} from "@/middlewares/idempotency";
 import {
   anyMessageContent,
+  bulkMessageJobSchema,
+  bulkMessageRecipient,
   chatModification,
   iMessageKey,
   jid,
+  messageStatusSchema,
   phoneNumberParams,
+  scheduledMessageSchema,
+  sendMediaBody,
+  sentMessageKey,
+  storedMessageKey,
 } from "./types";
 
 const connectionsController = new Elysia({
@@ -20,6 +44,7 @@ const connectionsController = new Elysia({
 })
   // TODO: Use auth data to limit access to existing connections.
   .use(authMiddleware)
+  .use(idempotencyMiddleware)
   .post(
     "/:phoneNumber",
     async ({ params, body }) => {
@@ -66,6 +91,20 @@ const connectionsController = new Elysia({
               "If true, messages from groups will be ignored for this connection. If not provided, uses the global IGNORE_GROUP_MESSAGES setting from .env",
           }),
         ),
+        simulateTyping: t.Optional(
+          t.Boolean({
+            description:
+              "Default of `simulateTyping` for messages sent through this connection.",
+            default: false,
+          }),
+        ),
+        dropBlockedMessages: t.Optional(
+          t.Boolean({
+            description:
+              "If true, messages from blocked contacts are dropped instead of being sent to the webhook.",
+            default: false,
+          }),
+        ),
       }),
       detail: {
         responses: {
@@ -115,14 +154,30 @@ const connectionsController = new Elysia({
   )
   .post(
     "/:phoneNumber/send-message",
-    async ({ params, body }) => {
+    async ({ params, body, set }) => {
       const { phoneNumber } = params;
-      const { jid, messageContent } = body;
+      const { jid, messageContent, quotedMessageKey, queued, simulateTyping } =
+        body;
 
       try {
+        if (queued) {
+          validateMessageContent(messageContent);
+          const { id } = await baileys.enqueueMessage(phoneNumber, {
+            jid,
+            messageContent,
+            quotedMessageKey,
+            simulateTyping,
+          });
+          set.status = 202;
+          return { data: { queueId: id } };
+        }
+
         const response = await baileys.sendMessage(phoneNumber, {
           jid,
-          messageContent: buildMessageContent(messageContent),
+          messageContent: await buildMessageContent(messageContent),
+          quotedMessageKey,
+          mediaPreprocessing: getMediaPreprocessing(messageContent),
+          simulateTyping,
         });
 
         if (!response) {
@@ -136,6 +191,19 @@ const connectionsController = new Elysia({
           },
         };
       } catch (error) {
+        if (
+          error instanceof InvalidMessageContentError ||
+          error instanceof InvalidMediaSourceError ||
+          error instanceof UnsupportedStickerError
+        ) {
+          return new Response(error.message, { status: 400 });
+        }
+        if (error instanceof BaileysMessageNotFoundError) {
+          return new Response("Quoted message not found", { status: 404 });
+        }
+        if (queued && error instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         return new Response(
@@ -146,9 +214,24 @@ const connectionsController = new Elysia({
     },
     {
       params: phoneNumberParams,
+      headers: idempotencyKeyHeaders,
+      idempotent: true,
       body: t.Object({
         jid: jid(),
         messageContent: anyMessageContent,
+        quotedMessageKey: t.Optional(storedMessageKey),
+        queued: t.Optional(
+          t.Boolean({
+            description:
+              "Add the message to the connection's throttled queue instead of sending it right away. The result is sent as a `message-queue.update` webhook event.",
+          }),
+        ),
+        simulateTyping: t.Optional(
+          t.Boolean({
+            description:
+              "Show the typing indicator (or recording, for voice notes) for a time based on the text length before sending. Defaults to the connection's `simulateTyping` setting.",
+          }),
+        ),
       }),
       detail: {
         responses: {
@@ -165,6 +248,29 @@ const connectionsController = new Elysia({
               },
             },
           },
+          202: {
+            description: "Message queued",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({
+                    queueId: t.String(),
+                  }),
+                }),
+              },
+            },
+          },
+          400: {
+            description:
+              "Invalid message content (e.g. malformed vCard, media URL that can't be fetched)",
+          },
+          404: {
+            description: "Quoted message or phone number not found",
+          },
+          409: {
+            description:
+              "A request with the same Idempotency-Key is in progress",
+          },
           500: {
             description: "Message not sent",
           },
@@ -173,73 +279,723 @@ const connectionsController = new Elysia({
     },
   )
   .post(
-    "/:phoneNumber/read-messages",
+    "/:phoneNumber/send-media",
     async ({ params, body }) => {
       const { phoneNumber } = params;
-      const { keys } = body;
+      const { jid, ...media } = body;
 
-      await baileys.readMessages(phoneNumber, keys);
+      try {
+        const response = await baileys.sendMessage(phoneNumber, {
+          jid,
+          messageContent: await buildUploadedMediaContent(media),
+        });
+
+        if (!response) {
+          return new Response("Message not sent", { status: 500 });
+        }
+
+        return {
+          data: {
+            key: response.key,
+            messageTimestamp: response.messageTimestamp,
+          },
+        };
+      } catch (error) {
+        if (
+          error instanceof InvalidMessageContentError ||
+          error instanceof InvalidMediaSourceError ||
+          error instanceof UnsupportedStickerError
+        ) {
+          return new Response(error.message, { status: 400 });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return new Response(`Failed to send message: ${errorMessage}`, {
+          status: 500,
+        });
+      }
     },
     {
       params: phoneNumberParams,
-      body: t.Object({
-        keys: t.Array(iMessageKey),
-      }),
+      headers: idempotencyKeyHeaders,
+      idempotent: true,
+      body: sendMediaBody,
       detail: {
+        description:
+          "Sends a media message from a `multipart/form-data` upload, without base64 encoding the file.",
         responses: {
           200: {
-            description: "Message read successfully",
+            description: "Message sent successfully",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({
+                    key: iMessageKey,
+                    messageTimestamp: t.String(),
+                  }),
+                }),
+              },
+            },
+          },
+          400: {
+            description:
+              "File content type doesn't match the media type or file is too large",
+          },
+          409: {
+            description:
+              "A request with the same Idempotency-Key is in progress",
+          },
+          500: {
+            description: "Message not sent",
           },
         },
       },
     },
   )
   .post(
-    "/:phoneNumber/chat-modify",
-    async ({ params, body }) => {
+    "/:phoneNumber/send-bulk",
+    async ({ params, body, set }) => {
       const { phoneNumber } = params;
-      const { mod, jid } = body;
+      const { recipients, messageContent } = body;
 
-      await baileys.chatModify(phoneNumber, mod, jid);
+      try {
+        const { id } = await baileys.sendBulkMessage(phoneNumber, {
+          recipients,
+          messageContent: await buildMessageContent(messageContent),
+          mediaPreprocessing: getMediaPreprocessing(messageContent),
+        });
+        set.status = 202;
+        return { data: { jobId: id } };
+      } catch (error) {
+        if (
+          error instanceof InvalidMessageContentError ||
+          error instanceof InvalidMediaSourceError ||
+          error instanceof UnsupportedStickerError
+        ) {
+          return new Response(error.message, { status: 400 });
+        }
+        if (error instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return new Response(`Failed to send messages: ${errorMessage}`, {
+          status: 500,
+        });
+      }
     },
     {
       params: phoneNumberParams,
+      headers: idempotencyKeyHeaders,
+      idempotent: true,
       body: t.Object({
-        mod: chatModification,
-        jid: jid(),
+        recipients: t.Array(bulkMessageRecipient, {
+          minItems: 1,
+          maxItems: 1000,
+        }),
+        messageContent: anyMessageContent,
       }),
       detail: {
         description:
-          "Currently only supports marking chats as read/unread with `markRead` + `lastMessages`.",
+          "Sends the same message to several recipients. Media is uploaded once and reused for every recipient, `{{name}}` placeholders in the text or caption are replaced with each recipient's `variables`, and sends are paced like the message queue. Phone number recipients are checked with `onWhatsApp` first.",
+        responses: {
+          202: {
+            description: "Bulk send started",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "object",
+                      properties: {
+                        jobId: { type: "string" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description:
+              "Invalid message content (e.g. malformed vCard, media URL that can't be fetched)",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+          409: {
+            description:
+              "A request with the same Idempotency-Key is in progress",
+          },
+          500: {
+            description: "Media could not be uploaded",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/send-bulk/:jobId",
+    async ({ params }) => {
+      const { phoneNumber, jobId } = params;
+
+      try {
+        const job = await baileys.getBulkMessageJob(phoneNumber, jobId);
+        if (!job) {
+          return new Response("Bulk send job not found", { status: 404 });
+        }
+        return { data: job };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: t.Object({
+        ...phoneNumberParams.properties,
+        jobId: t.String({ description: "Bulk send job id" }),
+      }),
+      detail: {
+        description:
+          "Returns the status of a bulk send, with the result of each recipient: `pending`, `sent`, `failed` or `not-on-whatsapp`.",
         responses: {
           200: {
-            description: "Chat modification was successfully applied",
+            description: "Bulk send job",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: bulkMessageJobSchema,
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number or job not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/messages/:messageId/status",
+    async ({ params }) => {
+      const { phoneNumber, messageId } = params;
+
+      try {
+        const status = await baileys.getMessageStatus(phoneNumber, messageId);
+        if (!status) {
+          return new Response("Message status not found", { status: 404 });
+        }
+        return { data: status };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: t.Object({
+        ...phoneNumberParams.properties,
+        messageId: t.String({ description: "Id of a message sent by the API" }),
+      }),
+      detail: {
+        description:
+          "Returns the delivery status of a message sent through the API, folded from `messages.update` and `message-receipt.update` events, with per participant receipts for groups.",
+        responses: {
+          200: {
+            description: "Message status",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: messageStatusSchema,
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number or message status not found",
           },
         },
       },
     },
   )
   .post(
-    "/:phoneNumber/fetch-message-history",
-    ({ params, body }) => {
+    "/:phoneNumber/scheduled-messages",
+    async ({ params, body }) => {
       const { phoneNumber } = params;
-      return baileys.fetchMessageHistory(phoneNumber, body);
+      const { sendAt } = body;
+
+      if (sendAt <= Date.now()) {
+        return new Response("sendAt must be in the future", { status: 400 });
+      }
+
+      try {
+        validateMessageContent(body.messageContent);
+        const { id } = await baileys.scheduleMessage(phoneNumber, body);
+        return { data: { id, sendAt } };
+      } catch (e) {
+        if (
+          e instanceof InvalidMessageContentError ||
+          e instanceof InvalidMediaSourceError
+        ) {
+          return new Response(e.message, { status: 400 });
+        }
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
     },
     {
       params: phoneNumberParams,
       body: t.Object({
-        count: t.Number({
-          minimum: 1,
-          maximum: 50,
-          description: "Number of messages to fetch",
-          example: 10,
+        jid: jid(),
+        messageContent: anyMessageContent,
+        quotedMessageKey: t.Optional(storedMessageKey),
+        sendAt: t.Number({
+          description:
+            "When to send the message, as a Unix timestamp in milliseconds",
+          example: 1767225600000,
         }),
-        oldestMsgKey: iMessageKey,
-        oldestMsgTimestamp: t.Number(),
       }),
       detail: {
+        description:
+          "Schedules a message to be sent later. Messages due while the connection is not open are sent once it opens. A `scheduled-messages.update` webhook event is sent once the message is sent, fails or is skipped because the connection was logged out.",
         responses: {
-          200: { description: "Message history fetched" },
+          200: {
+            description: "Message scheduled",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "object",
+                      properties: {
+                        id: { type: "string" },
+                        sendAt: { type: "number" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          400: {
+            description:
+              "sendAt is not in the future or invalid message content",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/scheduled-messages",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        return { data: await baileys.getScheduledMessages(phoneNumber) };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        description: "Lists pending scheduled messages, ordered by `sendAt`.",
+        responses: {
+          200: {
+            description: "Pending scheduled messages",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: scheduledMessageSchema,
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .delete(
+    "/:phoneNumber/scheduled-messages/:id",
+    async ({ params }) => {
+      const { phoneNumber, id } = params;
+
+      try {
+        if (!(await baileys.cancelScheduledMessage(phoneNumber, id))) {
+          return new Response("Scheduled message not found", { status: 404 });
+        }
+        return { data: { id } };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: t.Object({
+        ...phoneNumberParams.properties,
+        id: t.String({ description: "Scheduled message id" }),
+      }),
+      detail: {
+        description: "Cancels a pending scheduled message.",
+        responses: {
+          200: {
+            description: "Scheduled message cancelled",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({ id: t.String() }),
+                }),
+              },
+            },
+          },
+          404: {
+            description: "Phone number or scheduled message not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/forward-message",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+
+      try {
+        const response = await baileys.forwardMessage(phoneNumber, body);
+
+        if (!response) {
+          return new Response("Message not forwarded", { status: 500 });
+        }
+
+        return {
+          data: {
+            key: response.key,
+            messageTimestamp: response.messageTimestamp,
+          },
+        };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        if (e instanceof BaileysMessageNotFoundError) {
+          return new Response("Message not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        jid: jid("Chat to forward the message to"),
+        key: storedMessageKey,
+      }),
+      detail: {
+        description:
+          "Forwards a sent or received message to another chat. The message must still be in the message store (see `BAILEYS_MESSAGE_STORE_TTL_HOURS`).",
+        responses: {
+          200: {
+            description: "Message forwarded successfully",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({
+                    key: iMessageKey,
+                    messageTimestamp: t.String(),
+                  }),
+                }),
+              },
+            },
+          },
+          404: {
+            description: "Phone number or message not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/edit-message",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+
+      try {
+        const response = await baileys.editMessage(phoneNumber, body);
+
+        if (!response) {
+          return new Response("Message not edited", { status: 500 });
+        }
+
+        return {
+          data: {
+            key: response.key,
+            messageTimestamp: response.messageTimestamp,
+          },
+        };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        if (e instanceof BaileysMessageNotEditableError) {
+          return new Response(e.message, { status: 400 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        key: sentMessageKey,
+        text: t.String({
+          description: "New text, or new caption for media messages",
+          example: "Hello world! (edited)",
+        }),
+        messageTimestamp: t.Optional(
+          t.Number({
+            description:
+              "`messageTimestamp` returned by `send-message`, used to reject edits past WhatsApp's 15 minute window. Defaults to the timestamp from the message store.",
+          }),
+        ),
+      }),
+      detail: {
+        description:
+          "Edits the text or caption of a message previously sent by this connection.",
+        responses: {
+          200: {
+            description: "Message edited successfully",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({
+                    key: iMessageKey,
+                    messageTimestamp: t.String(),
+                  }),
+                }),
+              },
+            },
+          },
+          400: {
+            description: "Message can no longer be edited",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/delete-message",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { key } = body;
+
+      try {
+        const response = await baileys.deleteMessage(phoneNumber, key);
+
+        if (!response) {
+          return new Response("Message not deleted", { status: 500 });
+        }
+
+        return {
+          data: {
+            key: response.key,
+            messageTimestamp: response.messageTimestamp,
+          },
+        };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        key: sentMessageKey,
+      }),
+      detail: {
+        description:
+          "Deletes a message for everyone. Messages from other participants can only be deleted in groups where this connection is an admin.",
+        responses: {
+          200: {
+            description: "Message deleted successfully",
+            content: {
+              "application/json": {
+                schema: t.Object({
+                  data: t.Object({
+                    key: iMessageKey,
+                    messageTimestamp: t.String(),
+                  }),
+                }),
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/read-messages",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { keys } = body;
+
+      await baileys.readMessages(phoneNumber, keys);
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        keys: t.Array(iMessageKey),
+      }),
+      detail: {
+        responses: {
+          200: {
+            description: "Message read successfully",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/chat-modify",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { mod, jid } = body;
+
+      await baileys.chatModify(phoneNumber, mod, jid);
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        mod: chatModification,
+        jid: jid(),
+      }),
+      detail: {
+        description:
+          "Currently only supports marking chats as read/unread with `markRead` + `lastMessages`.",
+        responses: {
+          200: {
+            description: "Chat modification was successfully applied",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/fetch-message-history",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { wait, timeoutMs = 30000, ...options } = body;
+      if (!wait) {
+        return baileys.fetchMessageHistory(phoneNumber, options);
+      }
+
+      try {
+        const data = await baileys.fetchMessageHistoryAndWait(phoneNumber, {
+          ...options,
+          timeoutMs,
+        });
+        return { data };
+      } catch (e) {
+        if (e instanceof BaileysHistoryFetchTimeoutError) {
+          return new Response(e.message, { status: 504 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        count: t.Number({
+          minimum: 1,
+          maximum: 50,
+          description: "Number of messages to fetch",
+          example: 10,
+        }),
+        oldestMsgKey: iMessageKey,
+        oldestMsgTimestamp: t.Number(),
+        wait: t.Optional(
+          t.Boolean({
+            default: false,
+            description:
+              "Wait for the phone to send the history and return its messages, instead of only the request id",
+          }),
+        ),
+        timeoutMs: t.Optional(
+          t.Number({
+            minimum: 1000,
+            maximum: 120000,
+            default: 30000,
+            description: "Maximum time to wait for the history with `wait`",
+          }),
+        ),
+      }),
+      detail: {
+        description:
+          "Requests older messages of a chat from the phone. The history is sent to the webhook in a `messaging-history.set` event with `syncType` ON_DEMAND, even without `syncFullHistory`. With `wait`, the messages are also returned in the response.",
+        responses: {
+          200: {
+            description:
+              "Request id, or with `wait` the request id and the fetched messages",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "object",
+                      properties: {
+                        requestId: { type: "string" },
+                        messages: {
+                          type: "array",
+                          items: { type: "object" },
+                          description: "Messages, as sent in `messages.upsert`",
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          504: {
+            description: "The phone did not send the history in time",
+          },
         },
       },
     },
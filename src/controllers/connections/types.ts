@@ -1,4 +1,5 @@
 import { t } from "elysia";
+import config from "@/config";
 
 export const jid = (moreInfo?: string) =>
   t.String({
@@ -23,11 +24,108 @@ export const iMessageKey = t.Object({
   participant: t.Optional(t.String()),
 });
 
+export const sentMessageKey = t.Object({
+  id: t.String({ description: "Message ID", example: "3EB0C431C2B5B8F9A1D2" }),
+  remoteJid: jid("Chat the message was sent to"),
+  fromMe: t.Optional(t.Boolean()),
+  participant: t.Optional(t.String()),
+});
+
+export const storedMessageKey = t.Object({
+  id: t.String({
+    description:
+      "Message ID. The message must still be in the message store (see `BAILEYS_MESSAGE_STORE_TTL_HOURS`).",
+    example: "3EB0C431C2B5B8F9A1D2",
+  }),
+  remoteJid: t.Optional(t.String()),
+  fromMe: t.Optional(t.Boolean()),
+  participant: t.Optional(t.String()),
+});
+
+const latitude = t.Number({
+  minimum: -90,
+  maximum: 90,
+  description: "Latitude in degrees",
+  example: -23.5613,
+});
+
+const longitude = t.Number({
+  minimum: -180,
+  maximum: 180,
+  description: "Longitude in degrees",
+  example: -46.6565,
+});
+
+const contactVCard = t.Object({
+  displayName: t.Optional(
+    t.String({ description: "Contact display name", example: "John Doe" }),
+  ),
+  vcard: t.String({
+    description: "Contact card in vCard format (versions 2.1, 3.0 or 4.0)",
+    example:
+      "BEGIN:VCARD\nVERSION:3.0\nFN:John Doe\nTEL;type=CELL;waid=551101234567:+55 11 0123-4567\nEND:VCARD",
+  }),
+});
+
+export const mediaSource = (media: string) =>
+  t.Union([
+    t.String({ description: `Base64 encoded ${media}` }),
+    t.Object(
+      {
+        url: t.String({
+          description: `http(s) URL the ${media} is downloaded from. The content type and size are checked before sending`,
+          example: "https://example.com/media",
+        }),
+      },
+      { title: "Media URL" },
+    ),
+  ]);
+
+const thumbnailPreprocessing = t.Optional(
+  t.Boolean({
+    description:
+      "Generate the thumbnail shown while the media is downloading. Defaults to `MEDIA_GENERATE_THUMBNAILS`",
+  }),
+);
+
+const imagePreprocessing = t.Object(
+  {
+    compress: t.Optional(
+      t.Boolean({
+        description:
+          "Downscale and re-encode the image as JPEG when it exceeds the configured limits. Defaults to `MEDIA_COMPRESS_IMAGES`",
+      }),
+    ),
+    thumbnail: thumbnailPreprocessing,
+  },
+  { description: "Overrides the global image preprocessing config" },
+);
+
+const videoPreprocessing = t.Object(
+  {
+    transcode: t.Optional(
+      t.Boolean({
+        description:
+          "Re-encode the video to H.264/AAC MP4 with faststart. Defaults to `MEDIA_TRANSCODE_VIDEOS`",
+      }),
+    ),
+    thumbnail: thumbnailPreprocessing,
+  },
+  { description: "Overrides the global video preprocessing config" },
+);
+
 export const anyMessageContent = t.Union([
   t.Object(
     {
       text: t.String({ description: "Text message", example: "Hello world!" }),
       mentions: t.Optional(t.Array(jid("user to mention in group message"))),
+      linkPreview: t.Optional(
+        t.Boolean({
+          description:
+            "Generate a preview (title, description and thumbnail) for the first link in the text",
+          default: false,
+        }),
+      ),
     },
     {
       title: "Text message",
@@ -35,9 +133,10 @@ export const anyMessageContent = t.Union([
   ),
   t.Object(
     {
-      image: t.String({ description: "Base64 encoded image data" }),
+      image: mediaSource("image data"),
       caption: t.Optional(t.String()),
       mimetype: t.Optional(t.String()),
+      preprocessing: t.Optional(imagePreprocessing),
     },
     {
       title: "Image message",
@@ -45,9 +144,10 @@ export const anyMessageContent = t.Union([
   ),
   t.Object(
     {
-      video: t.String({ description: "Base64 encoded video data" }),
+      video: mediaSource("video data"),
       caption: t.Optional(t.String()),
       mimetype: t.Optional(t.String()),
+      preprocessing: t.Optional(videoPreprocessing),
     },
     {
       title: "Video message",
@@ -55,7 +155,7 @@ export const anyMessageContent = t.Union([
   ),
   t.Object(
     {
-      document: t.String({ description: "Base64 encoded document data" }),
+      document: mediaSource("document data"),
       fileName: t.Optional(t.String()),
       mimetype: t.Optional(t.String()),
       caption: t.Optional(t.String()),
@@ -66,7 +166,7 @@ export const anyMessageContent = t.Union([
   ),
   t.Object(
     {
-      audio: t.String({ description: "Base64 encoded audio data" }),
+      audio: mediaSource("audio data"),
       ptt: t.Optional(t.Boolean()),
       mimetype: t.Optional(t.String()),
     },
@@ -74,6 +174,22 @@ export const anyMessageContent = t.Union([
       title: "Audio message",
     },
   ),
+  t.Object(
+    {
+      sticker: mediaSource(
+        "PNG, JPEG, GIF or WebP image, converted to a 512x512 WebP sticker. Animated GIF and WebP stay animated",
+      ),
+      packName: t.Optional(
+        t.String({ description: "Sticker pack name", example: "My stickers" }),
+      ),
+      author: t.Optional(
+        t.String({ description: "Sticker pack author", example: "John Doe" }),
+      ),
+    },
+    {
+      title: "Sticker message",
+    },
+  ),
   t.Object(
     {
       react: t.Object({
@@ -88,6 +204,107 @@ export const anyMessageContent = t.Union([
       title: "Reaction message",
     },
   ),
+  t.Object(
+    {
+      location: t.Object({
+        degreesLatitude: latitude,
+        degreesLongitude: longitude,
+        name: t.Optional(
+          t.String({ description: "Location name", example: "Our store" }),
+        ),
+        address: t.Optional(
+          t.String({
+            description: "Location address",
+            example: "Av. Paulista, 1000 - São Paulo",
+          }),
+        ),
+      }),
+    },
+    {
+      title: "Location message",
+    },
+  ),
+  t.Object(
+    {
+      liveLocation: t.Object({
+        degreesLatitude: latitude,
+        degreesLongitude: longitude,
+        accuracyInMeters: t.Optional(t.Number({ minimum: 0 })),
+        speedInMps: t.Optional(t.Number({ minimum: 0 })),
+        degreesClockwiseFromMagneticNorth: t.Optional(
+          t.Number({ minimum: 0, maximum: 359 }),
+        ),
+        caption: t.Optional(t.String()),
+        sequenceNumber: t.Optional(
+          t.Number({
+            description:
+              "Increasing sequence number, used by WhatsApp to order live location updates",
+          }),
+        ),
+        timeOffset: t.Optional(
+          t.Number({
+            description:
+              "Seconds elapsed since the live location sharing started",
+          }),
+        ),
+      }),
+    },
+    {
+      title: "Live location message",
+    },
+  ),
+  t.Object(
+    {
+      contact: contactVCard,
+    },
+    {
+      title: "Contact message",
+    },
+  ),
+  t.Object(
+    {
+      contacts: t.Object({
+        displayName: t.Optional(
+          t.String({
+            description: "Display name for the contact list",
+            example: "Support team",
+          }),
+        ),
+        contacts: t.Array(contactVCard, { minItems: 1 }),
+      }),
+    },
+    {
+      title: "Contacts message",
+    },
+  ),
+  t.Object(
+    {
+      poll: t.Object({
+        name: t.String({
+          description: "Poll question",
+          example: "Which day works best for you?",
+        }),
+        values: t.Array(t.String({ minLength: 1 }), {
+          description: "Poll options. Must be unique.",
+          example: ["Monday", "Wednesday", "Friday"],
+          minItems: 2,
+          maxItems: 12,
+        }),
+        selectableCount: t.Optional(
+          t.Number({
+            description:
+              "Number of options that can be selected. `0` allows selecting any number of options.",
+            minimum: 0,
+            default: 1,
+          }),
+        ),
+      }),
+      mentions: t.Optional(t.Array(jid("user to mention in group message"))),
+    },
+    {
+      title: "Poll message",
+    },
+  ),
 ]);
 
 const lastMessageList = t.Array(
@@ -106,3 +323,138 @@ export const chatModification = t.Object(
     title: "Mark read/unread",
   },
 );
+
+export const mediaType = t.UnionEnum(
+  ["image", "video", "audio", "document", "sticker"],
+  { description: "Type of the media message" },
+);
+
+export const sendMediaBody = t.Object({
+  jid: jid(),
+  type: mediaType,
+  file: t.File({
+    description: `Media file, streamed into the message. At most ${config.media.maxSourceBytes} bytes (\`MEDIA_SOURCE_MAX_BYTES\`)`,
+    maxSize: config.media.maxSourceBytes,
+  }),
+  caption: t.Optional(
+    t.String({ description: "Caption for image, video and document messages" }),
+  ),
+  fileName: t.Optional(
+    t.String({
+      description:
+        "File name for document messages. Defaults to the uploaded file name",
+    }),
+  ),
+  mimetype: t.Optional(
+    t.String({ description: "Defaults to the uploaded file content type" }),
+  ),
+  ptt: t.Optional(
+    t.BooleanString({ description: "Send audio as a voice note" }),
+  ),
+  packName: t.Optional(t.String({ description: "Sticker pack name" })),
+  author: t.Optional(t.String({ description: "Sticker pack author" })),
+});
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const scheduledMessageSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Scheduled message id" },
+    jid: { type: "string", example: "551101234567@s.whatsapp.net" },
+    messageContent: {
+      type: "object",
+      description: "Message content, as sent to `scheduled-messages`",
+    },
+    quotedMessageKey: { type: "object" },
+    sendAt: { type: "number", description: "Unix timestamp in milliseconds" },
+    createdAt: {
+      type: "number",
+      description: "Unix timestamp in milliseconds",
+    },
+  },
+} as const;
+
+export const bulkMessageRecipient = t.Object({
+  jid: jid(),
+  variables: t.Optional(
+    t.Record(t.String(), t.String(), {
+      description:
+        "Values of the `{{name}}` placeholders in the text or caption for this recipient",
+      example: { name: "Ana" },
+    }),
+  ),
+});
+
+const messageStatusTimestampsSchema = {
+  type: "object",
+  description:
+    "When each status was first reached, as Unix timestamps in milliseconds",
+  example: { pending: 1767225600000, server_ack: 1767225601000 },
+} as const;
+
+const messageStatusNameSchema = {
+  type: "string",
+  description:
+    "`pending`, `server_ack`, `delivered`, `read`, `played` or `failed`",
+} as const;
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const messageStatusSchema = {
+  type: "object",
+  properties: {
+    messageId: { type: "string" },
+    remoteJid: { type: "string", example: "551101234567@s.whatsapp.net" },
+    status: messageStatusNameSchema,
+    timestamps: messageStatusTimestampsSchema,
+    error: { type: "string", description: "Why the message failed" },
+    participants: {
+      type: "array",
+      description: "Receipts of each group participant",
+      items: {
+        type: "object",
+        properties: {
+          jid: { type: "string" },
+          status: messageStatusNameSchema,
+          timestamps: messageStatusTimestampsSchema,
+        },
+      },
+    },
+  },
+} as const;
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const bulkMessageJobSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Bulk send job id" },
+    status: {
+      type: "string",
+      description:
+        "`running`, `completed`, or `interrupted` if the connection was logged out before every recipient was sent",
+    },
+    createdAt: {
+      type: "number",
+      description: "Unix timestamp in milliseconds",
+    },
+    completedAt: {
+      type: "number",
+      description: "Unix timestamp in milliseconds",
+    },
+    recipients: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          jid: { type: "string", example: "551101234567@s.whatsapp.net" },
+          status: {
+            type: "string",
+            description: "`pending`, `sent`, `failed` or `not-on-whatsapp`",
+          },
+          key: { type: "object" },
+          messageTimestamp: { type: "string" },
+          error: { type: "string" },
+        },
+      },
+    },
+  },
+} as const;
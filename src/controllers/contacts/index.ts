@@ -0,0 +1,138 @@
+import Elysia, { t } from "elysia";
+import baileys from "@/baileys";
+import { BaileysNotConnectedError } from "@/baileys/connection";
+import { phoneNumberParams } from "@/controllers/connections/types";
+import { contactSchema } from "@/controllers/contacts/types";
+import { authMiddleware } from "@/middlewares/auth";
+
+const contactsController = new Elysia({
+  prefix: "/connections",
+  detail: {
+    tags: ["Contacts"],
+    security: [{ xApiKey: [] }],
+  },
+})
+  // TODO: Use auth data to limit access to existing connections.
+  .use(authMiddleware)
+  .get(
+    "/:phoneNumber/contacts",
+    async ({ params, query }) => {
+      const { phoneNumber } = params;
+      const { query: search, offset = 0, limit = 100 } = query;
+
+      try {
+        const { contacts, total } = await baileys.getContacts(phoneNumber, {
+          query: search,
+          offset,
+          limit,
+        });
+        return { data: contacts, total };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: phoneNumberParams,
+      query: t.Object({
+        query: t.Optional(
+          t.String({
+            description:
+              "Only return contacts whose name, push name, business name, jid or phone number contain this text",
+            example: "john",
+          }),
+        ),
+        offset: t.Optional(
+          t.Numeric({
+            minimum: 0,
+            default: 0,
+            description: "Contacts to skip",
+          }),
+        ),
+        limit: t.Optional(
+          t.Numeric({
+            minimum: 1,
+            maximum: 500,
+            default: 100,
+            description: "Maximum number of contacts to return",
+          }),
+        ),
+      }),
+      detail: {
+        description:
+          "Lists the contacts stored for the connection, sorted by name. Contacts are collected from contact events and the history sync.",
+        responses: {
+          200: {
+            description: "Contacts",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: contactSchema },
+                    total: {
+                      type: "number",
+                      description: "Number of matching contacts",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/contacts/:jid",
+    async ({ params }) => {
+      const { phoneNumber, jid } = params;
+
+      try {
+        const contact = await baileys.getContact(phoneNumber, jid);
+        if (!contact) {
+          return new Response("Contact not found", { status: 404 });
+        }
+        return { data: contact };
+      } catch (e) {
+        if (e instanceof BaileysNotConnectedError) {
+          return new Response("Phone number not found", { status: 404 });
+        }
+        throw e;
+      }
+    },
+    {
+      params: t.Object({
+        ...phoneNumberParams.properties,
+        jid: t.String({
+          description: "Contact jid, in phone number or lid format",
+          example: "551101234567@s.whatsapp.net",
+        }),
+      }),
+      detail: {
+        responses: {
+          200: {
+            description: "Contact",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: contactSchema },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number or contact not found",
+          },
+        },
+      },
+    },
+  );
+
+export default contactsController;
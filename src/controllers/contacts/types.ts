@@ -0,0 +1,19 @@
+// NOTE: Plain JSON schema, only used to document responses.
+export const contactSchema = {
+  type: "object",
+  properties: {
+    id: {
+      type: "string",
+      description: "Contact jid, in phone number or lid format",
+      example: "551101234567@s.whatsapp.net",
+    },
+    lid: { type: "string", example: "123456789012345@lid" },
+    phoneNumber: { type: "string", example: "551101234567@s.whatsapp.net" },
+    name: { type: "string", description: "Name saved in the address book" },
+    notify: { type: "string", description: "Push name set by the contact" },
+    verifiedName: {
+      type: "string",
+      description: "Verified business name",
+    },
+  },
+} as const;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { Boom } from "@hapi/boom";
+import { BaileysNotConnectedError } from "@/baileys/connection";
+import { groupErrorResponse, parseInviteCode } from "./helpers";
+
+describe("groups helpers", () => {
+  describe("#groupErrorResponse", () => {
+    it("returns 404 if the connection does not exist", () => {
+      expect(groupErrorResponse(new BaileysNotConnectedError()).status).toBe(
+        404,
+      );
+    });
+
+    it("returns the WhatsApp error code of client errors", () => {
+      const response = groupErrorResponse(new Boom("forbidden", { data: 403 }));
+      expect(response.status).toBe(403);
+    });
+
+    it("rethrows other errors", () => {
+      const error = new Boom("internal-server-error", { data: 500 });
+      expect(() => groupErrorResponse(error)).toThrow(error);
+    });
+  });
+
+  describe("#parseInviteCode", () => {
+    it("extracts the code from an invite link", () => {
+      expect(parseInviteCode("https://chat.whatsapp.com/AbC123")).toBe(
+        "AbC123",
+      );
+    });
+
+    it("returns codes as is", () => {
+      expect(parseInviteCode("AbC123")).toBe("AbC123");
+    });
+  });
+});
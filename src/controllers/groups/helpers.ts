@@ -0,0 +1,29 @@
+import { isBoom } from "@hapi/boom";
+import { BaileysNotConnectedError } from "@/baileys/connection";
+
+/**
+ * @description Map errors of group operations to responses. WhatsApp rejects invalid group
+ * operations with 4xx error codes (e.g. `403` when not an admin), which Baileys throws as `Boom` errors.
+ * Any other error is rethrown.
+ */
+export function groupErrorResponse(error: unknown): Response {
+  if (error instanceof BaileysNotConnectedError) {
+    return new Response("Phone number not found", { status: 404 });
+  }
+  if (
+    isBoom(error) &&
+    typeof error.data === "number" &&
+    error.data >= 400 &&
+    error.data < 500
+  ) {
+    return new Response(error.message, { status: error.data });
+  }
+  throw error;
+}
+
+/**
+ * @description Extract the invite code from an invite link, e.g. `https://chat.whatsapp.com/<code>`.
+ */
+export function parseInviteCode(invite: string) {
+  return invite.replace(/^(https?:\/\/)?chat\.whatsapp\.com\//, "").trim();
+}
@@ -0,0 +1,542 @@
+import Elysia, { t } from "elysia";
+import baileys from "@/baileys";
+import { phoneNumberParams } from "@/controllers/connections/types";
+import {
+  groupErrorResponse,
+  parseInviteCode,
+} from "@/controllers/groups/helpers";
+import { authMiddleware } from "@/middlewares/auth";
+import {
+  groupMetadataSchema,
+  groupParams,
+  joinRequestsSchema,
+  participantJids,
+  participantResultsSchema,
+} from "./types";
+
+const inviteCodeResponse = (inviteCode: string | undefined) => ({
+  data: {
+    inviteCode,
+    inviteLink: inviteCode ? `https://chat.whatsapp.com/${inviteCode}` : null,
+  },
+});
+
+const inviteCodeResponseSchema = {
+  type: "object",
+  properties: {
+    data: {
+      type: "object",
+      properties: {
+        inviteCode: { type: "string", example: "HbGdqmn8Kq1F5Tsnxqi3Yb" },
+        inviteLink: {
+          type: "string",
+          example: "https://chat.whatsapp.com/HbGdqmn8Kq1F5Tsnxqi3Yb",
+        },
+      },
+    },
+  },
+} as const;
+
+const groupsController = new Elysia({
+  prefix: "/connections",
+  detail: {
+    tags: ["Groups"],
+    security: [{ xApiKey: [] }],
+  },
+})
+  // TODO: Use auth data to limit access to existing connections.
+  .use(authMiddleware)
+  .post(
+    "/:phoneNumber/groups",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { subject, participants } = body;
+
+      try {
+        return {
+          data: await baileys.groupCreate(phoneNumber, subject, participants),
+        };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        subject: t.String({
+          minLength: 1,
+          maxLength: 100,
+          description: "Group name",
+          example: "Support",
+        }),
+        participants: participantJids,
+      }),
+      detail: {
+        responses: {
+          200: {
+            description: "Group created",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: groupMetadataSchema },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/groups",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        return { data: await baileys.groupFetchAllParticipating(phoneNumber) };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        description: "Lists the groups the account participates in.",
+        responses: {
+          200: {
+            description: "Groups",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: { type: "array", items: groupMetadataSchema },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/groups/join",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+
+      try {
+        const groupJid = await baileys.groupAcceptInvite(
+          phoneNumber,
+          parseInviteCode(body.inviteCode),
+        );
+        return { data: { groupJid } };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        inviteCode: t.String({
+          minLength: 1,
+          description: "Invite code or invite link",
+          example: "https://chat.whatsapp.com/HbGdqmn8Kq1F5Tsnxqi3Yb",
+        }),
+      }),
+      detail: {
+        description: "Joins a group through an invite code or link.",
+        responses: {
+          200: {
+            description: "Group joined",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "object",
+                      properties: { groupJid: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number or invite not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/groups/:groupJid",
+    async ({ params }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return { data: await baileys.groupMetadata(phoneNumber, groupJid) };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      detail: {
+        description:
+          "Returns the group subject, description, settings and participants.",
+        responses: {
+          200: {
+            description: "Group metadata",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: groupMetadataSchema },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .patch(
+    "/:phoneNumber/groups/:groupJid",
+    async ({ params, body }) => {
+      const { phoneNumber, groupJid } = params;
+      const { subject, description, announce, locked, joinApproval } = body;
+
+      try {
+        if (subject !== undefined) {
+          await baileys.groupUpdateSubject(phoneNumber, groupJid, subject);
+        }
+        if (description !== undefined) {
+          // NOTE: An empty description removes it.
+          await baileys.groupUpdateDescription(
+            phoneNumber,
+            groupJid,
+            description || undefined,
+          );
+        }
+        if (announce !== undefined) {
+          await baileys.groupSettingUpdate(
+            phoneNumber,
+            groupJid,
+            announce ? "announcement" : "not_announcement",
+          );
+        }
+        if (locked !== undefined) {
+          await baileys.groupSettingUpdate(
+            phoneNumber,
+            groupJid,
+            locked ? "locked" : "unlocked",
+          );
+        }
+        if (joinApproval !== undefined) {
+          await baileys.groupJoinApprovalMode(
+            phoneNumber,
+            groupJid,
+            joinApproval ? "on" : "off",
+          );
+        }
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      body: t.Object(
+        {
+          subject: t.Optional(
+            t.String({
+              minLength: 1,
+              maxLength: 100,
+              description: "Group name",
+            }),
+          ),
+          description: t.Optional(
+            t.String({
+              maxLength: 2048,
+              description: "Group description. An empty string removes it.",
+            }),
+          ),
+          announce: t.Optional(
+            t.Boolean({ description: "Only admins can send messages" }),
+          ),
+          locked: t.Optional(
+            t.Boolean({ description: "Only admins can edit the group info" }),
+          ),
+          joinApproval: t.Optional(
+            t.Boolean({
+              description: "Admins must approve requests to join the group",
+            }),
+          ),
+        },
+        { minProperties: 1 },
+      ),
+      detail: {
+        description: "Updates the group subject, description or settings.",
+        responses: {
+          200: {
+            description: "Group updated",
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/groups/:groupJid/participants",
+    async ({ params, body }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return {
+          data: await baileys.groupParticipantsUpdate(phoneNumber, {
+            jid: groupJid,
+            ...body,
+          }),
+        };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      body: t.Object({
+        participants: participantJids,
+        action: t.UnionEnum(["add", "remove", "promote", "demote"], {
+          description:
+            "`add` or `remove` participants, or `promote` them to or `demote` them from admin",
+        }),
+      }),
+      detail: {
+        description:
+          "Adds, removes, promotes or demotes participants. The result of each participant is returned, so some may succeed while others fail.",
+        responses: {
+          200: {
+            description: "Result of each participant",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: participantResultsSchema },
+                },
+              },
+            },
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/groups/:groupJid/join-requests",
+    async ({ params }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return {
+          data: await baileys.groupRequestParticipantsList(
+            phoneNumber,
+            groupJid,
+          ),
+        };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      detail: {
+        description:
+          "Lists the pending requests to join a group with admin approval.",
+        responses: {
+          200: {
+            description: "Pending join requests",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: joinRequestsSchema },
+                },
+              },
+            },
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/groups/:groupJid/join-requests",
+    async ({ params, body }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return {
+          data: await baileys.groupRequestParticipantsUpdate(phoneNumber, {
+            jid: groupJid,
+            ...body,
+          }),
+        };
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      body: t.Object({
+        participants: participantJids,
+        action: t.UnionEnum(["approve", "reject"], {
+          description: "`approve` or `reject` the join requests",
+        }),
+      }),
+      detail: {
+        description:
+          "Approves or rejects pending join requests. The result of each participant is returned, so some may succeed while others fail.",
+        responses: {
+          200: {
+            description: "Result of each participant",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: participantResultsSchema },
+                },
+              },
+            },
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/groups/:groupJid/invite-code",
+    async ({ params }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return inviteCodeResponse(
+          await baileys.groupInviteCode(phoneNumber, groupJid),
+        );
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      detail: {
+        description: "Returns the group invite code and link.",
+        responses: {
+          200: {
+            description: "Invite code",
+            content: {
+              "application/json": { schema: inviteCodeResponseSchema },
+            },
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/groups/:groupJid/revoke-invite-code",
+    async ({ params }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        return inviteCodeResponse(
+          await baileys.groupRevokeInvite(phoneNumber, groupJid),
+        );
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      detail: {
+        description:
+          "Revokes the group invite link. The new invite code and link are returned.",
+        responses: {
+          200: {
+            description: "New invite code",
+            content: {
+              "application/json": { schema: inviteCodeResponseSchema },
+            },
+          },
+          403: {
+            description: "Not allowed, e.g. the account is not a group admin",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/groups/:groupJid/leave",
+    async ({ params }) => {
+      const { phoneNumber, groupJid } = params;
+
+      try {
+        await baileys.groupLeave(phoneNumber, groupJid);
+      } catch (e) {
+        return groupErrorResponse(e);
+      }
+    },
+    {
+      params: groupParams,
+      detail: {
+        responses: {
+          200: {
+            description: "Group left",
+          },
+          404: {
+            description: "Phone number or group not found",
+          },
+        },
+      },
+    },
+  );
+
+export default groupsController;
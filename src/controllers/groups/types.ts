@@ -0,0 +1,95 @@
+import { t } from "elysia";
+import { phoneNumberParams } from "@/controllers/connections/types";
+
+export const groupJid = () =>
+  t.String({
+    pattern: "^[0-9-]+@g\\.us$",
+    description: "Group whatsapp jid",
+    example: "120363025246125888@g.us",
+  });
+
+export const groupParams = t.Object({
+  ...phoneNumberParams.properties,
+  groupJid: groupJid(),
+});
+
+export const participantJids = t.Array(
+  t.String({
+    description: "Participant whatsapp jid",
+    example: "551101234567@s.whatsapp.net",
+  }),
+  { minItems: 1 },
+);
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const groupMetadataSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", example: "120363025246125888@g.us" },
+    subject: { type: "string" },
+    desc: { type: "string" },
+    owner: { type: "string" },
+    creation: { type: "number", description: "Unix timestamp in seconds" },
+    announce: {
+      type: "boolean",
+      description: "Only admins can send messages",
+    },
+    restrict: {
+      type: "boolean",
+      description: "Only admins can edit the group info",
+    },
+    size: { type: "number" },
+    participants: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", example: "551101234567@s.whatsapp.net" },
+          admin: {
+            type: "string",
+            description: "`admin`, `superadmin` or null",
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const participantResultsSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      jid: { type: "string", example: "551101234567@s.whatsapp.net" },
+      status: {
+        type: "string",
+        description:
+          "Result code for the participant, e.g. `200` on success, `403` if not allowed, `408` if they recently left or `409` if already in the group",
+        example: "200",
+      },
+    },
+  },
+} as const;
+
+// NOTE: Plain JSON schema, only used to document responses.
+export const joinRequestsSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      jid: { type: "string", example: "123456789012345@lid" },
+      phoneNumber: {
+        type: "string",
+        description: "Phone number of the requester, when known",
+        example: "+551101234567",
+      },
+      requestMethod: {
+        type: "string",
+        description:
+          "e.g. `invite_link`, `linked_group_join` or `non_admin_add`",
+      },
+      requestTime: { type: "number", description: "Unix timestamp in seconds" },
+    },
+  },
+} as const;
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { Boom } from "@hapi/boom";
+import { BaileysNotConnectedError } from "@/baileys/connection";
+import { InvalidMediaSourceError } from "@/baileys/helpers/mediaSource";
+import { UnsupportedProfilePictureError } from "@/baileys/helpers/preprocessProfilePicture";
+import { profileErrorResponse, resolveImage } from "./helpers";
+
+describe("profile helpers", () => {
+  describe("#profileErrorResponse", () => {
+    it("returns 404 if the connection does not exist", () => {
+      expect(profileErrorResponse(new BaileysNotConnectedError()).status).toBe(
+        404,
+      );
+    });
+
+    it("returns 400 for invalid pictures", () => {
+      expect(
+        profileErrorResponse(new UnsupportedProfilePictureError("invalid"))
+          .status,
+      ).toBe(400);
+      expect(
+        profileErrorResponse(new InvalidMediaSourceError("invalid")).status,
+      ).toBe(400);
+    });
+
+    it("returns the WhatsApp error code of client errors", () => {
+      const response = profileErrorResponse(
+        new Boom("not-authorized", { data: 401 }),
+      );
+      expect(response.status).toBe(401);
+    });
+
+    it("rethrows other errors", () => {
+      const error = new Error("unexpected");
+      expect(() => profileErrorResponse(error)).toThrow(error);
+    });
+  });
+
+  describe("#resolveImage", () => {
+    it("decodes base64 images", async () => {
+      expect(
+        await resolveImage(Buffer.from("image").toString("base64")),
+      ).toEqual(Buffer.from("image"));
+    });
+
+    it.todo("downloads images from URLs", () => {});
+  });
+});
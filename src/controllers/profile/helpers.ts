@@ -0,0 +1,49 @@
+import { isBoom } from "@hapi/boom";
+import { BaileysNotConnectedError } from "@/baileys/connection";
+import {
+  fetchMediaStream,
+  InvalidMediaSourceError,
+  streamToBuffer,
+} from "@/baileys/helpers/mediaSource";
+import { UnsupportedProfilePictureError } from "@/baileys/helpers/preprocessProfilePicture";
+
+/**
+ * @description Map errors of profile operations to responses. Invalid pictures are rejected
+ * with `400`, and WhatsApp errors thrown by Baileys as `Boom` errors keep their 4xx code.
+ * Any other error is rethrown.
+ */
+export function profileErrorResponse(error: unknown): Response {
+  if (error instanceof BaileysNotConnectedError) {
+    return new Response("Phone number not found", { status: 404 });
+  }
+  if (
+    error instanceof InvalidMediaSourceError ||
+    error instanceof UnsupportedProfilePictureError
+  ) {
+    return new Response(error.message, { status: 400 });
+  }
+  if (
+    isBoom(error) &&
+    typeof error.data === "number" &&
+    error.data >= 400 &&
+    error.data < 500
+  ) {
+    return new Response(error.message, { status: error.data });
+  }
+  throw error;
+}
+
+/**
+ * @description Resolve an image field, either base64 data or a URL.
+ */
+export async function resolveImage(
+  source: string | { url: string },
+): Promise<Buffer> {
+  if (typeof source === "string") {
+    return Buffer.from(source, "base64");
+  }
+  const { stream } = await fetchMediaStream(source.url, {
+    accept: ["image/*"],
+  });
+  return streamToBuffer(stream);
+}
@@ -0,0 +1,387 @@
+import Elysia, { t } from "elysia";
+import baileys from "@/baileys";
+import {
+  mediaSource,
+  phoneNumberParams,
+} from "@/controllers/connections/types";
+import {
+  profileErrorResponse,
+  resolveImage,
+} from "@/controllers/profile/helpers";
+import { privacySettingsSchema } from "@/controllers/profile/types";
+import { authMiddleware } from "@/middlewares/auth";
+
+const profileController = new Elysia({
+  prefix: "/connections",
+  detail: {
+    tags: ["Profile"],
+    security: [{ xApiKey: [] }],
+  },
+})
+  // TODO: Use auth data to limit access to existing connections.
+  .use(authMiddleware)
+  .get(
+    "/:phoneNumber/profile",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        return { data: await baileys.getProfile(phoneNumber) };
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        description:
+          "Returns the name, about text and profile picture of the connected account.",
+        responses: {
+          200: {
+            description: "Profile",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "object",
+                      properties: {
+                        jid: {
+                          type: "string",
+                          example: "551234567890@s.whatsapp.net",
+                        },
+                        name: {
+                          type: "string",
+                          nullable: true,
+                          description: "Push name shown to other users",
+                        },
+                        about: { type: "string", nullable: true },
+                        aboutSetAt: {
+                          type: "number",
+                          nullable: true,
+                          description: "Unix timestamp in milliseconds",
+                        },
+                        profilePictureUrl: {
+                          type: "string",
+                          nullable: true,
+                          example:
+                            "https://pps.whatsapp.net/v/t61.24694-24/...",
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .patch(
+    "/:phoneNumber/profile",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { name, about } = body;
+
+      try {
+        if (name !== undefined) {
+          await baileys.updateProfileName(phoneNumber, name);
+        }
+        if (about !== undefined) {
+          await baileys.updateProfileStatus(phoneNumber, about);
+        }
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object(
+        {
+          name: t.Optional(
+            t.String({
+              minLength: 1,
+              maxLength: 25,
+              description: "Push name shown to other users",
+              example: "Support",
+            }),
+          ),
+          about: t.Optional(
+            t.String({
+              maxLength: 139,
+              description: "About text",
+              example: "Available",
+            }),
+          ),
+        },
+        { minProperties: 1 },
+      ),
+      detail: {
+        description: "Updates the push name or about text of the account.",
+        responses: {
+          200: {
+            description: "Profile updated",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .put(
+    "/:phoneNumber/profile/picture",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+
+      try {
+        await baileys.updateProfilePicture(
+          phoneNumber,
+          await resolveImage(body.image),
+        );
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        image: mediaSource("image data"),
+      }),
+      detail: {
+        description:
+          "Sets the profile picture of the account. The image is cropped to a centered square.",
+        responses: {
+          200: {
+            description: "Profile picture updated",
+          },
+          400: {
+            description: "Invalid image",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .delete(
+    "/:phoneNumber/profile/picture",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        await baileys.removeProfilePicture(phoneNumber);
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        responses: {
+          200: {
+            description: "Profile picture removed",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/privacy",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        return { data: await baileys.fetchPrivacySettings(phoneNumber) };
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        description: "Returns the privacy settings of the account.",
+        responses: {
+          200: {
+            description: "Privacy settings",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: privacySettingsSchema },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .patch(
+    "/:phoneNumber/privacy",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+
+      try {
+        await baileys.updatePrivacySettings(phoneNumber, body);
+        return { data: await baileys.fetchPrivacySettings(phoneNumber) };
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object(
+        {
+          lastSeen: t.Optional(
+            t.UnionEnum(["all", "contacts", "contact_blacklist", "none"], {
+              description: "Who can see the last seen",
+            }),
+          ),
+          online: t.Optional(
+            t.UnionEnum(["all", "match_last_seen"], {
+              description: "Who can see when the account is online",
+            }),
+          ),
+          profilePicture: t.Optional(
+            t.UnionEnum(["all", "contacts", "contact_blacklist", "none"], {
+              description: "Who can see the profile picture",
+            }),
+          ),
+          about: t.Optional(
+            t.UnionEnum(["all", "contacts", "contact_blacklist", "none"], {
+              description: "Who can see the about text",
+            }),
+          ),
+          readReceipts: t.Optional(
+            t.UnionEnum(["all", "none"], {
+              description: "Whether read receipts are sent",
+            }),
+          ),
+          groupAdd: t.Optional(
+            t.UnionEnum(["all", "contacts", "contact_blacklist"], {
+              description: "Who can add the account to groups",
+            }),
+          ),
+          callAdd: t.Optional(
+            t.UnionEnum(["all", "known"], {
+              description: "Who can call the account",
+            }),
+          ),
+        },
+        { minProperties: 1 },
+      ),
+      detail: {
+        description:
+          "Updates the privacy settings of the account. `contact_blacklist` means contacts except the ones excluded on the phone. The updated settings are returned.",
+        responses: {
+          200: {
+            description: "Updated privacy settings",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { data: privacySettingsSchema },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .get(
+    "/:phoneNumber/blocklist",
+    async ({ params }) => {
+      const { phoneNumber } = params;
+
+      try {
+        return { data: await baileys.fetchBlocklist(phoneNumber) };
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      detail: {
+        description: "Returns the jids blocked by the account.",
+        responses: {
+          200: {
+            description: "Blocked jids",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    data: {
+                      type: "array",
+                      items: {
+                        type: "string",
+                        example: "551101234567@s.whatsapp.net",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  )
+  .post(
+    "/:phoneNumber/blocklist",
+    async ({ params, body }) => {
+      const { phoneNumber } = params;
+      const { jid, action } = body;
+
+      try {
+        await baileys.updateBlockStatus(phoneNumber, jid, action);
+      } catch (e) {
+        return profileErrorResponse(e);
+      }
+    },
+    {
+      params: phoneNumberParams,
+      body: t.Object({
+        jid: t.String({
+          description: "Contact whatsapp jid",
+          example: "551101234567@s.whatsapp.net",
+        }),
+        action: t.UnionEnum(["block", "unblock"], {
+          description: "`block` or `unblock` the contact",
+        }),
+      }),
+      detail: {
+        description: "Blocks or unblocks a contact.",
+        responses: {
+          200: {
+            description: "Block status updated",
+          },
+          404: {
+            description: "Phone number not found",
+          },
+        },
+      },
+    },
+  );
+
+export default profileController;
@@ -0,0 +1,25 @@
+// NOTE: Plain JSON schema, only used to document responses.
+export const privacySettingsSchema = {
+  type: "object",
+  properties: {
+    lastSeen: {
+      type: "string",
+      description: "`all`, `contacts`, `contact_blacklist` or `none`",
+    },
+    online: { type: "string", description: "`all` or `match_last_seen`" },
+    profilePicture: {
+      type: "string",
+      description: "`all`, `contacts`, `contact_blacklist` or `none`",
+    },
+    about: {
+      type: "string",
+      description: "`all`, `contacts`, `contact_blacklist` or `none`",
+    },
+    readReceipts: { type: "string", description: "`all` or `none`" },
+    groupAdd: {
+      type: "string",
+      description: "`all`, `contacts` or `contact_blacklist`",
+    },
+    callAdd: { type: "string", description: "`all` or `known`" },
+  },
+} as const;
@@ -0,0 +1,160 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import config from "@/config";
+import {
+  assertPublicUrl,
+  BlockedUrlError,
+  fetchPublicUrl,
+  isReservedIp,
+} from "./fetchPublicUrl";
+
+describe("fetchPublicUrl", () => {
+  describe("#isReservedIp", () => {
+    it("returns true for private, loopback, link-local and reserved IPv4 addresses", () => {
+      for (const ip of [
+        "0.0.0.0",
+        "10.1.2.3",
+        "100.64.0.1",
+        "127.0.0.1",
+        "169.254.169.254",
+        "172.16.0.1",
+        "172.31.255.255",
+        "192.168.1.1",
+        "198.18.0.1",
+        "224.0.0.1",
+        "255.255.255.255",
+      ]) {
+        expect(isReservedIp(ip)).toBe(true);
+      }
+    });
+
+    it("returns false for public IPv4 addresses", () => {
+      for (const ip of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "93.184.216.34"]) {
+        expect(isReservedIp(ip)).toBe(false);
+      }
+    });
+
+    it("returns true for private, loopback, link-local and reserved IPv6 addresses", () => {
+      for (const ip of [
+        "::",
+        "::1",
+        "fc00::1",
+        "fd12:3456::1",
+        "fe80::1%eth0",
+        "ff02::1",
+        "2001:db8::1",
+        "::ffff:127.0.0.1",
+        "::ffff:a9fe:a9fe",
+        "64:ff9b::10.0.0.1",
+      ]) {
+        expect(isReservedIp(ip)).toBe(true);
+      }
+    });
+
+    it("returns false for public IPv6 addresses", () => {
+      for (const ip of [
+        "2606:4700:4700::1111",
+        "2001:4860:4860::8888",
+        "::ffff:8.8.8.8",
+      ]) {
+        expect(isReservedIp(ip)).toBe(false);
+      }
+    });
+
+    it("returns true for values that are not IP addresses", () => {
+      expect(isReservedIp("example.com")).toBe(true);
+    });
+  });
+
+  describe("#assertPublicUrl", () => {
+    it("rejects invalid and non http(s) URLs", async () => {
+      await expect(assertPublicUrl("not a url")).rejects.toThrow(
+        BlockedUrlError,
+      );
+      await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow(
+        BlockedUrlError,
+      );
+    });
+
+    it("rejects URLs whose host is a reserved IP address", async () => {
+      await expect(
+        assertPublicUrl("http://169.254.169.254/latest/meta-data"),
+      ).rejects.toThrow(BlockedUrlError);
+      await expect(assertPublicUrl("http://[::1]:3025/")).rejects.toThrow(
+        BlockedUrlError,
+      );
+    });
+
+    it("rejects hosts that resolve to a reserved IP address", async () => {
+      await expect(assertPublicUrl("http://localhost/")).rejects.toThrow(
+        BlockedUrlError,
+      );
+    });
+
+    it("accepts URLs whose host is a public IP address", async () => {
+      await expect(
+        assertPublicUrl("https://8.8.8.8/"),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("#fetchPublicUrl", () => {
+    let server: Server<undefined>;
+    let baseUrl: string;
+
+    beforeAll(() => {
+      // NOTE: The fixture server listens on localhost.
+      config.allowPrivateUrls = true;
+      server = Bun.serve({
+        port: 0,
+        fetch: (request) => {
+          const { pathname } = new URL(request.url);
+          switch (pathname) {
+            case "/redirect":
+              return Response.redirect(`${baseUrl}/target`, 302);
+            case "/redirect-file":
+              return Response.redirect("file:///etc/passwd", 302);
+            case "/loop":
+              return Response.redirect(`${baseUrl}/loop`, 302);
+            default:
+              return new Response("ok");
+          }
+        },
+      });
+      baseUrl = `http://localhost:${server.port}`;
+    });
+
+    afterAll(() => {
+      server.stop(true);
+      config.allowPrivateUrls = false;
+    });
+
+    it("follows redirects", async () => {
+      const response = await fetchPublicUrl(`${baseUrl}/redirect`);
+      expect(await response.text()).toBe("ok");
+    });
+
+    it("rejects redirects to URLs that are not allowed", async () => {
+      await expect(fetchPublicUrl(`${baseUrl}/redirect-file`)).rejects.toThrow(
+        BlockedUrlError,
+      );
+    });
+
+    it("rejects too many redirects", async () => {
+      await expect(fetchPublicUrl(`${baseUrl}/loop`)).rejects.toThrow(
+        BlockedUrlError,
+      );
+    });
+
+    it("rejects private URLs unless ALLOW_PRIVATE_URLS is enabled", async () => {
+      config.allowPrivateUrls = false;
+      try {
+        await expect(fetchPublicUrl(`${baseUrl}/`)).rejects.toThrow(
+          BlockedUrlError,
+        );
+      } finally {
+        config.allowPrivateUrls = true;
+      }
+    });
+  });
+});
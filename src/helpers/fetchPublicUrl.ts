@@ -0,0 +1,163 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import config from "@/config";
+
+export class BlockedUrlError extends Error {}
+
+const MAX_REDIRECTS = 5;
+
+// NOTE: Private, loopback, link-local (including cloud metadata endpoints), shared,
+// documentation, benchmarking, multicast and other reserved IPv4 ranges.
+const RESERVED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const ipv4ToNumber = (ip: string) =>
+  ip.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+
+const isReservedIpv4 = (ip: string) => {
+  const value = ipv4ToNumber(ip);
+  return RESERVED_IPV4_RANGES.some(([base, prefixLength]) => {
+    const size = 2 ** (32 - prefixLength);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+};
+
+/**
+ * @returns The 8 hextets of an IPv6 address, with any embedded IPv4 address converted.
+ */
+const expandIpv6 = (ip: string) => {
+  let address = ip.split("%")[0].toLowerCase();
+  const ipv4 = address.match(/\d+\.\d+\.\d+\.\d+$/)?.[0];
+  if (ipv4) {
+    const value = ipv4ToNumber(ipv4);
+    address = `${address.slice(0, -ipv4.length)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const [head, tail] = address.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const hextets =
+    tail === undefined
+      ? headParts
+      : [
+          ...headParts,
+          ...Array(8 - headParts.length - tailParts.length).fill("0"),
+          ...tailParts,
+        ];
+  return hextets.map((hextet) => Number.parseInt(hextet, 16));
+};
+
+const isReservedIpv6 = (ip: string) => {
+  const hextets = expandIpv6(ip);
+  const [first, second] = hextets;
+  // NOTE: IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96)
+  // addresses are checked by the IPv4 address they embed.
+  const embedsIpv4 =
+    (hextets.slice(0, 5).every((hextet) => hextet === 0) &&
+      (hextets[5] === 0 || hextets[5] === 0xffff)) ||
+    (first === 0x64 &&
+      second === 0xff9b &&
+      hextets.slice(2, 6).every((hextet) => hextet === 0));
+  if (embedsIpv4) {
+    return isReservedIpv4(
+      [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff]
+        .map(String)
+        .join("."),
+    );
+  }
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 || // Multicast
+    (first === 0x2001 && second === 0xdb8) || // Documentation
+    (first === 0x100 && hextets.slice(1, 4).every((hextet) => hextet === 0)) // Discard
+  );
+};
+
+/**
+ * @description Check whether an IP address is private, loopback, link-local or otherwise reserved.
+ */
+export function isReservedIp(ip: string) {
+  switch (isIP(ip)) {
+    case 4:
+      return isReservedIpv4(ip);
+    case 6:
+      return isReservedIpv6(ip);
+    default:
+      return true;
+  }
+}
+
+/**
+ * @description Check that a URL is http(s) and that its host only resolves to public IP
+ * addresses, so API callers can't make the server reach internal services. Private addresses
+ * are allowed with `ALLOW_PRIVATE_URLS`.
+ *
+ * @throws BlockedUrlError if the URL is not allowed.
+ */
+export async function assertPublicUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new BlockedUrlError(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+  if (config.allowPrivateUrls) {
+    return;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map(({ address }) => address);
+  } catch {
+    throw new BlockedUrlError(`Failed to resolve ${hostname}`);
+  }
+  if (addresses.length === 0 || addresses.some(isReservedIp)) {
+    throw new BlockedUrlError(
+      `URL ${url} resolves to a private or reserved address`,
+    );
+  }
+}
+
+/**
+ * @description Fetch a URL given by an API caller. The URL and every redirect are checked
+ * with `assertPublicUrl` before they are requested.
+ *
+ * @throws BlockedUrlError if the URL or a redirect is not allowed.
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}) {
+  let currentUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(currentUrl);
+    const response = await fetch(currentUrl, { ...init, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new BlockedUrlError(`Too many redirects fetching ${url}`);
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+}
@@ -5,6 +5,8 @@ import { errorToString } from "@/helpers/errorToString";
 import logger, { deepSanitizeObject } from "@/lib/logger";
 import { initializeRedis } from "@/lib/redis";
 import { MediaCleanupService } from "@/services/mediaCleanup";
+import { MessageQueueService } from "@/services/messageQueue";
+import { MessageSchedulerService } from "@/services/messageScheduler";
 
 process.on("uncaughtException", (error) => {
   logger.error(
@@ -26,6 +28,12 @@ const mediaCleanup = new MediaCleanupService({
   intervalMs: config.media.cleanupIntervalMs,
 });
 
+const messageScheduler = new MessageSchedulerService({
+  intervalMs: config.scheduledMessages.intervalMs,
+});
+
+const messageQueue = new MessageQueueService(config.messageQueue);
+
 app.listen(config.port, () => {
   logger.info(
     `${config.packageInfo.name}@${config.packageInfo.version} running on ${app.server?.hostname}:${app.server?.port}`,
@@ -44,18 +52,27 @@ app.listen(config.port, () => {
   }
 
   initializeRedis().then(() =>
-    baileys.reconnectFromAuthStore().catch((error) => {
-      logger.error(
-        "Failed to reconnect from auth store: %s",
-        errorToString(error),
-      );
-    }),
+    baileys
+      .reconnectFromAuthStore()
+      .catch((error) => {
+        logger.error(
+          "Failed to reconnect from auth store: %s",
+          errorToString(error),
+        );
+      })
+      // NOTE: Started after the saved connections are created, so their messages are postponed until they open instead of being skipped.
+      .then(() => {
+        messageScheduler.start();
+        messageQueue.start();
+      }),
   );
 });
 
 const shutdown = (signal: string) => {
   logger.info(`Received ${signal}, shutting down gracefully...`);
   mediaCleanup.stop();
+  messageScheduler.stop();
+  messageQueue.stop();
   process.exit(0);
 };
 
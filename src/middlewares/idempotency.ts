@@ -0,0 +1,144 @@
+import { Elysia, t } from "elysia";
+import config from "@/config";
+import { asyncSleep } from "@/helpers/asyncSleep";
+import { errorToString } from "@/helpers/errorToString";
+import logger from "@/lib/logger";
+import redis from "@/lib/redis";
+
+export const REDIS_KEY_PREFIX = "@baileys-api:idempotency-keys";
+
+const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+// NOTE: Bounds how long a key stays locked if the API stops while the first attempt is in progress.
+const PENDING_TTL_MS = 5 * 60 * 1000;
+const PENDING_POLL_INTERVAL_MS = 100;
+
+type IdempotencyRecord =
+  | { status: "pending" }
+  | { status: "completed"; statusCode: number; body: unknown };
+
+/**
+ * @description Schema of the `Idempotency-Key` header. Set as the `headers` of routes with
+ * `idempotent: true`, so it is validated and documented along with their other parameters.
+ */
+export const idempotencyKeyHeaders = t.Object({
+  [IDEMPOTENCY_KEY_HEADER]: t.Optional(
+    t.String({
+      description:
+        "Unique key of the request. Retries with the same key return the original response instead of sending again.",
+      maxLength: IDEMPOTENCY_KEY_MAX_LENGTH,
+    }),
+  ),
+});
+
+// NOTE: Keys claimed by requests in progress, so their response can be saved once handled.
+const claimedKeys = new WeakMap<Request, string>();
+
+function createKey(request: Request, idempotencyKey: string) {
+  // NOTE: Keys are scoped by route and phone number, so the same key can be reused across them.
+  const { pathname } = new URL(request.url);
+  return `${REDIS_KEY_PREFIX}:${request.method}:${pathname}:${idempotencyKey}`;
+}
+
+async function claimKey(key: string) {
+  const record: IdempotencyRecord = { status: "pending" };
+  const result = await redis.set(key, JSON.stringify(record), {
+    NX: true,
+    PX: PENDING_TTL_MS,
+  });
+  return result === "OK";
+}
+
+async function releaseKey(key: string) {
+  try {
+    await redis.del(key);
+  } catch (error) {
+    logger.error(
+      "Failed to release idempotency key %s: %s",
+      key,
+      errorToString(error),
+    );
+  }
+}
+
+/**
+ * @description Adds the `idempotent` route option. Routes with `idempotent: true` accept an
+ * `Idempotency-Key` header: the first successful response is saved for the configured window
+ * and returned again to any request with the same key, without handling it again. Error
+ * responses are not saved, so the request can be retried with the same key.
+ */
+export const idempotencyMiddleware = new Elysia({
+  name: "idempotency",
+}).macro({
+  idempotent: {
+    async beforeHandle({ request, set }) {
+      const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+      if (!idempotencyKey) {
+        return;
+      }
+
+      const key = createKey(request, idempotencyKey);
+      const deadline = Date.now() + config.idempotency.waitTimeoutMs;
+      while (true) {
+        if (await claimKey(key)) {
+          claimedKeys.set(request, key);
+          return;
+        }
+
+        const data = await redis.get(key);
+        // NOTE: The key may have been released by a failed attempt in the meantime, in which case it is claimed again.
+        if (data) {
+          const record: IdempotencyRecord = JSON.parse(data);
+          if (record.status === "completed") {
+            set.status = record.statusCode;
+            set.headers["idempotent-replayed"] = "true";
+            return record.body;
+          }
+          if (Date.now() >= deadline) {
+            return new Response(
+              "A request with the same Idempotency-Key is in progress",
+              { status: 409 },
+            );
+          }
+          await asyncSleep(PENDING_POLL_INTERVAL_MS);
+        }
+      }
+    },
+    async afterHandle({ request, responseValue, set }) {
+      const key = claimedKeys.get(request);
+      if (!key) {
+        return;
+      }
+      claimedKeys.delete(request);
+
+      // NOTE: Errors are returned as `Response`s, successful responses as plain objects.
+      if (responseValue instanceof Response) {
+        await releaseKey(key);
+        return;
+      }
+      const record: IdempotencyRecord = {
+        status: "completed",
+        statusCode: typeof set.status === "number" ? set.status : 200,
+        body: responseValue,
+      };
+      try {
+        await redis.set(key, JSON.stringify(record), {
+          EX: config.idempotency.ttlHours * 60 * 60,
+        });
+      } catch (error) {
+        logger.error(
+          "Failed to save idempotent response for %s: %s",
+          key,
+          errorToString(error),
+        );
+      }
+    },
+    async error({ request }) {
+      const key = claimedKeys.get(request);
+      if (key) {
+        claimedKeys.delete(request);
+        await releaseKey(key);
+      }
+    },
+  },
+});
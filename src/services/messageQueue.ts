@@ -0,0 +1,247 @@
+import type { Static } from "elysia";
+import baileys from "@/baileys";
+import {
+  BaileysConnectionClosedError,
+  BaileysNotConnectedError,
+} from "@/baileys/connection";
+import { delaySendSlots, waitForSendSlot } from "@/baileys/helpers/sendPacing";
+import { getRedisSavedAuthStateIds } from "@/baileys/redisAuthState";
+import {
+  getQueuedConnectionIds,
+  useRedisMessageQueue,
+} from "@/baileys/redisMessageQueue";
+import type { MessageQueueUpdate, QueuedMessage } from "@/baileys/types";
+import config from "@/config";
+import {
+  buildMessageContent,
+  getMediaPreprocessing,
+  InvalidMessageContentError,
+} from "@/controllers/connections/helpers";
+import type { anyMessageContent } from "@/controllers/connections/types";
+import { errorToString } from "@/helpers/errorToString";
+import logger from "@/lib/logger";
+
+// NOTE: Delay before retrying the queue of a connection that is not open yet.
+const NOT_OPEN_RETRY_DELAY_MS = 30_000;
+
+type DeliveryResult = "done" | "not-open";
+
+export class MessageQueueService {
+  private queueInterval: ReturnType<typeof setInterval> | null = null;
+  private isStopped = false;
+  private readonly workers = new Map<string, Promise<void>>();
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly intervalMs: number;
+
+  constructor({
+    concurrency = 1,
+    maxAttempts = 3,
+    intervalMs = 1000,
+  }: {
+    concurrency?: number;
+    maxAttempts?: number;
+    intervalMs?: number;
+  }) {
+    this.concurrency = concurrency;
+    this.maxAttempts = maxAttempts;
+    this.intervalMs = intervalMs;
+  }
+
+  start() {
+    if (this.queueInterval) {
+      logger.warn("Message queue service is already running");
+      return;
+    }
+
+    logger.info(
+      "Starting message queue service (%d messages per minute, concurrency: %d)",
+      config.messageQueue.messagesPerMinute,
+      this.concurrency,
+    );
+
+    this.isStopped = false;
+    const recovery = this.recoverMessages().catch((error) => {
+      logger.error(
+        "Failed to recover queued messages: %s",
+        errorToString(error),
+      );
+    });
+    this.queueInterval = setInterval(() => {
+      recovery
+        .then(() => this.startWorkers())
+        .catch((error) => {
+          logger.error(
+            "Failed to start message queue workers: %s",
+            errorToString(error),
+          );
+        });
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.queueInterval) {
+      clearInterval(this.queueInterval);
+      this.queueInterval = null;
+      this.isStopped = true;
+      logger.info("Message queue service stopped");
+    }
+  }
+
+  /**
+   * @description Move messages that were being sent when the API stopped back to their queue.
+   */
+  private async recoverMessages() {
+    const ids = new Set([
+      ...(await getQueuedConnectionIds()),
+      ...(await getRedisSavedAuthStateIds()).map(({ id }) => id),
+    ]);
+    for (const id of ids) {
+      const recovered = await useRedisMessageQueue(id).recoverMessages();
+      if (recovered > 0) {
+        logger.info(
+          "[%s] [MessageQueue] Recovered %d queued messages",
+          id,
+          recovered,
+        );
+      }
+    }
+  }
+
+  private async startWorkers() {
+    for (const id of await getQueuedConnectionIds()) {
+      if (this.workers.has(id)) {
+        continue;
+      }
+      const worker = this.drainQueue(id)
+        .catch((error) => {
+          logger.error(
+            "[%s] [MessageQueue] Worker failed: %s",
+            id,
+            errorToString(error),
+          );
+        })
+        .finally(() => this.workers.delete(id));
+      this.workers.set(id, worker);
+    }
+  }
+
+  private async drainQueue(id: string) {
+    const queue = useRedisMessageQueue(id);
+    let isPaused = false;
+
+    const runLane = async () => {
+      while (!this.isStopped && !isPaused) {
+        await waitForSendSlot(id);
+        if (this.isStopped || isPaused) {
+          return;
+        }
+        const message = await queue.dequeueMessage();
+        if (!message) {
+          return;
+        }
+        const result = await this.deliver(
+          id,
+          queue,
+          message as QueuedMessage<Static<typeof anyMessageContent>>,
+        );
+        if (result === "not-open") {
+          isPaused = true;
+          delaySendSlots(id, NOT_OPEN_RETRY_DELAY_MS);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.concurrency }, runLane));
+  }
+
+  private async deliver(
+    phoneNumber: string,
+    queue: ReturnType<typeof useRedisMessageQueue>,
+    message: QueuedMessage<Static<typeof anyMessageContent>>,
+  ): Promise<DeliveryResult> {
+    const { id, jid, messageContent, quotedMessageKey, simulateTyping } =
+      message;
+    const attempts = message.attempts + 1;
+
+    let update: MessageQueueUpdate;
+    try {
+      // NOTE: Checked first, so media is not downloaded again each time the queue is paused.
+      baileys.assertReadyToSend(phoneNumber);
+      const response = await baileys.sendMessage(phoneNumber, {
+        jid,
+        messageContent: await buildMessageContent(messageContent),
+        quotedMessageKey,
+        mediaPreprocessing: getMediaPreprocessing(messageContent),
+        simulateTyping,
+      });
+      if (!response) {
+        throw new Error("Message not sent");
+      }
+      update = {
+        queueId: id,
+        jid,
+        status: "sent",
+        attempts,
+        key: response.key,
+        messageTimestamp: response.messageTimestamp,
+      };
+    } catch (error) {
+      if (error instanceof BaileysConnectionClosedError) {
+        // NOTE: Not counted as an attempt, the message is sent once the connection is open again.
+        await queue.requeueMessage(message);
+        logger.info(
+          "[%s] [MessageQueue] Connection not open, pausing queue",
+          phoneNumber,
+        );
+        return "not-open";
+      }
+      if (
+        !(error instanceof BaileysNotConnectedError) &&
+        !(error instanceof InvalidMessageContentError) &&
+        attempts < this.maxAttempts
+      ) {
+        await queue.requeueMessage({ ...message, attempts });
+        logger.warn(
+          "[%s] [MessageQueue] Queued message %s failed (attempt %d/%d): %s",
+          phoneNumber,
+          id,
+          attempts,
+          this.maxAttempts,
+          errorToString(error),
+        );
+        return "done";
+      }
+      update = {
+        queueId: id,
+        jid,
+        status:
+          error instanceof BaileysNotConnectedError ? "skipped" : "failed",
+        attempts,
+        error: errorToString(error),
+      };
+    }
+
+    await queue.completeMessage(id);
+    logger.info(
+      "[%s] [MessageQueue] Queued message %s %s",
+      phoneNumber,
+      id,
+      update.status,
+    );
+    baileys
+      .sendToWebhook(phoneNumber, {
+        event: "message-queue.update",
+        data: update,
+      })
+      .catch((error) => {
+        logger.error(
+          "[%s] [MessageQueue] Failed to send webhook for %s: %s",
+          phoneNumber,
+          id,
+          errorToString(error),
+        );
+      });
+    return "done";
+  }
+}
@@ -0,0 +1,179 @@
+import type { Static } from "elysia";
+import baileys from "@/baileys";
+import {
+  BaileysConnectionClosedError,
+  BaileysNotConnectedError,
+} from "@/baileys/connection";
+import {
+  claimDueScheduledMessages,
+  completeScheduledMessage,
+  recoverStaleScheduledMessages,
+  releaseScheduledMessage,
+} from "@/baileys/redisScheduledMessageStore";
+import type { ScheduledMessage, ScheduledMessageUpdate } from "@/baileys/types";
+import {
+  buildMessageContent,
+  getMediaPreprocessing,
+} from "@/controllers/connections/helpers";
+import type { anyMessageContent } from "@/controllers/connections/types";
+import { errorToString } from "@/helpers/errorToString";
+import logger from "@/lib/logger";
+
+// NOTE: Claimed messages not completed after this time are considered lost by a stopped instance.
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export class MessageSchedulerService {
+  private schedulerInterval: ReturnType<typeof setInterval> | null = null;
+  private isDelivering = false;
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+
+  constructor({
+    intervalMs = 5000,
+    batchSize = 100,
+  }: {
+    intervalMs?: number;
+    batchSize?: number;
+  }) {
+    this.intervalMs = intervalMs;
+    this.batchSize = batchSize;
+  }
+
+  start() {
+    if (this.schedulerInterval) {
+      logger.warn("Message scheduler service is already running");
+      return;
+    }
+
+    logger.info(
+      "Starting message scheduler service (interval: %dms)",
+      this.intervalMs,
+    );
+
+    this.schedulerInterval = setInterval(() => {
+      this.deliverDueMessages().catch((error) => {
+        logger.error(
+          "Scheduled messages delivery failed: %s",
+          errorToString(error),
+        );
+      });
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+      logger.info("Message scheduler service stopped");
+    }
+  }
+
+  async deliverDueMessages(): Promise<void> {
+    if (this.isDelivering) {
+      return;
+    }
+    this.isDelivering = true;
+    try {
+      const recovered = await recoverStaleScheduledMessages(
+        Date.now() - STALE_CLAIM_MS,
+      );
+      if (recovered > 0) {
+        logger.warn(
+          "[MessageScheduler] Recovered %d scheduled messages claimed by a stopped instance",
+          recovered,
+        );
+      }
+
+      let claimed: Awaited<ReturnType<typeof claimDueScheduledMessages>>;
+      do {
+        claimed = await claimDueScheduledMessages(Date.now(), this.batchSize);
+        for (const { phoneNumber, message } of claimed) {
+          await this.deliver(
+            phoneNumber,
+            message as ScheduledMessage<Static<typeof anyMessageContent>>,
+          );
+        }
+      } while (claimed.length === this.batchSize);
+    } finally {
+      this.isDelivering = false;
+    }
+  }
+
+  private async deliver(
+    phoneNumber: string,
+    {
+      id,
+      jid,
+      sendAt,
+      messageContent,
+      quotedMessageKey,
+    }: ScheduledMessage<Static<typeof anyMessageContent>>,
+  ) {
+    let update: ScheduledMessageUpdate;
+    try {
+      // NOTE: Checked first, so media is not downloaded again each time the message is postponed.
+      baileys.assertReadyToSend(phoneNumber);
+      const response = await baileys.sendMessage(phoneNumber, {
+        jid,
+        messageContent: await buildMessageContent(messageContent),
+        quotedMessageKey,
+        mediaPreprocessing: getMediaPreprocessing(messageContent),
+      });
+      update = response
+        ? {
+            id,
+            jid,
+            sendAt,
+            status: "sent",
+            key: response.key,
+            messageTimestamp: response.messageTimestamp,
+          }
+        : { id, jid, sendAt, status: "failed", error: "Message not sent" };
+    } catch (error) {
+      if (error instanceof BaileysConnectionClosedError) {
+        // NOTE: The connection exists but is not open yet, e.g. right after a restart, so the message is sent once it is.
+        await releaseScheduledMessage(
+          phoneNumber,
+          id,
+          Date.now() + this.intervalMs,
+        );
+        logger.info(
+          "[%s] [MessageScheduler] Connection not open, postponing scheduled message %s",
+          phoneNumber,
+          id,
+        );
+        return;
+      }
+      update = {
+        id,
+        jid,
+        sendAt,
+        status:
+          error instanceof BaileysNotConnectedError ? "skipped" : "failed",
+        error: errorToString(error),
+      };
+    }
+
+    await completeScheduledMessage(phoneNumber, id);
+
+    logger.info(
+      "[%s] [MessageScheduler] Scheduled message %s %s",
+      phoneNumber,
+      id,
+      update.status,
+    );
+    baileys
+      .sendToWebhook(phoneNumber, {
+        event: "scheduled-messages.update",
+        data: update,
+      })
+      .catch((error) => {
+        logger.error(
+          "[%s] [MessageScheduler] Failed to send webhook for %s: %s",
+          phoneNumber,
+          id,
+          errorToString(error),
+        );
+      });
+  }
+}